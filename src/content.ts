@@ -0,0 +1,178 @@
+import { EmbeddedResource, ImageContent, TextContent } from '@modelcontextprotocol/sdk/types.js';
+import { InvalidArgumentError } from './recall-client.js';
+
+// How get_object should render an object: detect from its bytes, or force a representation
+export const OBJECT_ENCODINGS = ['auto', 'text', 'base64', 'json'] as const;
+export type ObjectEncoding = (typeof OBJECT_ENCODINGS)[number];
+
+export type ObjectContent = TextContent | ImageContent | EmbeddedResource;
+
+// How add_object should interpret its `data` string
+export const DATA_ENCODINGS = ['utf8', 'base64', 'hex'] as const;
+export type DataEncoding = (typeof DATA_ENCODINGS)[number];
+
+// Image types MCP clients can render inline
+const INLINE_IMAGE_TYPES = new Set(['image/png', 'image/jpeg', 'image/gif', 'image/webp']);
+
+// Leading bytes of common binary formats
+const MAGIC_NUMBERS: { mimeType: string; bytes: number[]; offset?: number }[] = [
+  { mimeType: 'image/png', bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+  { mimeType: 'image/jpeg', bytes: [0xff, 0xd8, 0xff] },
+  { mimeType: 'image/gif', bytes: [0x47, 0x49, 0x46, 0x38] },
+  { mimeType: 'image/webp', bytes: [0x57, 0x45, 0x42, 0x50], offset: 8 },
+  { mimeType: 'image/bmp', bytes: [0x42, 0x4d] },
+  { mimeType: 'application/pdf', bytes: [0x25, 0x50, 0x44, 0x46] },
+  { mimeType: 'application/zip', bytes: [0x50, 0x4b, 0x03, 0x04] },
+  { mimeType: 'application/gzip', bytes: [0x1f, 0x8b] },
+  { mimeType: 'application/x-7z-compressed', bytes: [0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c] },
+  { mimeType: 'application/wasm', bytes: [0x00, 0x61, 0x73, 0x6d] },
+];
+
+const matchesMagic = (data: Uint8Array, bytes: number[], offset = 0): boolean =>
+  data.length >= offset + bytes.length && bytes.every((byte, i) => data[offset + i] === byte);
+
+/**
+ * Decodes bytes as UTF-8, returning undefined when they are not valid UTF-8.
+ * @param data The bytes to decode.
+ * @returns The decoded text, or undefined.
+ */
+export function decodeUtf8(data: Uint8Array): string | undefined {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(data);
+  } catch {
+    return undefined;
+  }
+}
+
+const isJson = (text: string): boolean => {
+  const trimmed = text.trim();
+  if (!trimmed.startsWith('{') && !trimmed.startsWith('[')) return false;
+  try {
+    JSON.parse(trimmed);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Detects the MIME type of an object from its leading bytes.
+ * A stored content type is preferred when it is more specific than application/octet-stream.
+ * @param data The object bytes.
+ * @param storedType The content type stored with the object, if any.
+ * @returns The detected MIME type.
+ */
+export function detectMimeType(data: Uint8Array, storedType?: string): string {
+  if (storedType && storedType !== 'application/octet-stream') {
+    return storedType;
+  }
+
+  for (const { mimeType, bytes, offset } of MAGIC_NUMBERS) {
+    if (matchesMagic(data, bytes, offset)) {
+      return mimeType;
+    }
+  }
+
+  const text = decodeUtf8(data);
+  if (text === undefined) {
+    return 'application/octet-stream';
+  }
+  return isJson(text) ? 'application/json' : 'text/plain';
+}
+
+const isTextType = (mimeType: string): boolean =>
+  mimeType.startsWith('text/') || mimeType === 'application/json' || mimeType.endsWith('+json');
+
+/**
+ * Converts object bytes into MCP content according to the requested encoding.
+ * In auto mode text is returned as text, JSON is pretty-printed, images become image
+ * content and anything else is returned as a base64 resource blob.
+ * @param data The object bytes.
+ * @param options The encoding, resource URI and stored content type.
+ * @returns The MCP content item and the MIME type it was rendered as.
+ */
+export function toObjectContent(
+  data: Uint8Array,
+  options: { encoding?: ObjectEncoding; uri: string; storedType?: string },
+): { content: ObjectContent; mimeType: string } {
+  const encoding = options.encoding ?? 'auto';
+  const mimeType = detectMimeType(data, options.storedType);
+
+  const blob = (): { content: ObjectContent; mimeType: string } => ({
+    content: {
+      type: 'resource',
+      resource: { uri: options.uri, mimeType, blob: Buffer.from(data).toString('base64') },
+    },
+    mimeType,
+  });
+
+  switch (encoding) {
+    case 'base64':
+      return blob();
+
+    case 'text':
+      // Forced text decoding replaces invalid sequences instead of failing
+      return { content: { type: 'text', text: new TextDecoder().decode(data) }, mimeType: 'text/plain' };
+
+    case 'json': {
+      const text = decodeUtf8(data);
+      try {
+        if (text === undefined) throw new Error('not valid UTF-8');
+        return {
+          content: { type: 'text', text: JSON.stringify(JSON.parse(text), null, 2) },
+          mimeType: 'application/json',
+        };
+      } catch (error: any) {
+        throw new InvalidArgumentError(`Object is not valid JSON: ${error.message}`);
+      }
+    }
+
+    case 'auto':
+    default: {
+      if (INLINE_IMAGE_TYPES.has(mimeType)) {
+        return { content: { type: 'image', data: Buffer.from(data).toString('base64'), mimeType }, mimeType };
+      }
+      const text = isTextType(mimeType) ? decodeUtf8(data) : undefined;
+      if (text === undefined) {
+        return blob();
+      }
+      if (mimeType === 'application/json' && isJson(text)) {
+        return { content: { type: 'text', text: JSON.stringify(JSON.parse(text), null, 2) }, mimeType };
+      }
+      return { content: { type: 'text', text }, mimeType };
+    }
+  }
+}
+
+/**
+ * Decodes a tool `data` string into the bytes to store.
+ * @param data The encoded data.
+ * @param encoding How the data is encoded.
+ * @returns The decoded bytes.
+ */
+export function decodeInputData(data: string, encoding: DataEncoding = 'utf8'): Uint8Array {
+  switch (encoding) {
+    case 'base64': {
+      const normalized = data.replace(/\s+/g, '');
+      if (!/^[A-Za-z0-9+/_-]*={0,2}$/.test(normalized) || normalized.length % 4 === 1) {
+        throw new InvalidArgumentError('Data is not valid base64');
+      }
+      // Buffer accepts both the standard and the URL-safe alphabet
+      return new Uint8Array(Buffer.from(normalized, 'base64'));
+    }
+
+    case 'hex': {
+      const normalized = data.replace(/^0x/i, '').replace(/\s+/g, '');
+      if (!/^[0-9a-fA-F]*$/.test(normalized) || normalized.length % 2 !== 0) {
+        throw new InvalidArgumentError('Data is not valid hex');
+      }
+      return new Uint8Array(Buffer.from(normalized, 'hex'));
+    }
+
+    case 'utf8':
+      return new TextEncoder().encode(data);
+
+    default:
+      throw new InvalidArgumentError(`Unsupported data encoding: ${encoding}`);
+  }
+}
@@ -0,0 +1,54 @@
+import { CreditTracker } from './credit-tracker.js';
+import { ObjectEncryption } from './encryption.js';
+import { LifecycleManager } from './lifecycle.js';
+import { MemoryStore } from './memory.js';
+import { AccessPolicy } from './permissions.js';
+import { RecallClientManager } from './recall-client.js';
+import { SearchIndex } from './search.js';
+import { SpendingPolicy } from './spending-policy.js';
+
+// The Recall client and the services built on it, for one network and wallet profile
+export interface ProfileContext {
+  recallClient: RecallClientManager;
+  // Tool profile and bucket allow/deny lists from RECALL_TOOL_PROFILE and RECALL_BUCKET_*
+  accessPolicy: AccessPolicy;
+  // Structured agent memory stored in per-agent buckets
+  memoryStore: MemoryStore;
+  // Spend caps and ledger in front of buy_credit
+  spendingPolicy: SpendingPolicy;
+  // Local full-text index over selected buckets
+  searchIndex: SearchIndex;
+  // Client-side envelope encryption of object payloads and keys
+  objectEncryption: ObjectEncryption;
+  // Credit history, burn rate and storage cost estimates
+  creditTracker: CreditTracker;
+  // Per-bucket lifecycle policies and their enforcement
+  lifecycleManager: LifecycleManager;
+}
+
+const profileContexts = new Map<string, ProfileContext>();
+
+/**
+ * Gets the context for a profile, creating its client on first use.
+ * @param profile The profile name, or undefined for the default profile.
+ * @returns The shared context of the profile.
+ */
+export function getProfileContext(profile?: string): ProfileContext {
+  const recallClient = RecallClientManager.getInstance(profile);
+  let context = profileContexts.get(recallClient.profile.name);
+  if (!context) {
+    const objectEncryption = new ObjectEncryption(recallClient);
+    context = {
+      recallClient,
+      accessPolicy: new AccessPolicy(recallClient),
+      memoryStore: new MemoryStore(recallClient, objectEncryption),
+      spendingPolicy: new SpendingPolicy(recallClient),
+      searchIndex: new SearchIndex(recallClient, objectEncryption),
+      objectEncryption,
+      creditTracker: new CreditTracker(recallClient),
+      lifecycleManager: new LifecycleManager(recallClient, objectEncryption),
+    };
+    profileContexts.set(recallClient.profile.name, context);
+  }
+  return context;
+}
@@ -0,0 +1,294 @@
+import { appendFile, mkdir, readFile } from 'fs/promises';
+import { dirname, join } from 'path';
+import { Address, formatEther, formatUnits } from 'viem';
+import { config, logger } from './env.js';
+import { mapConcurrent, RecallClientManager } from './recall-client.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Storage is taken to cost one whole credit per byte for each second of TTL; the chain counts credit in atto-credit
+const CREDIT_DECIMALS = 18;
+const ATTO_PER_CREDIT = 10n ** BigInt(CREDIT_DECIMALS);
+
+// tokenCreditRate is the atto-credit one atto-token buys, scaled by this factor
+const RATE_SCALE = 10n ** 18n;
+
+// Observed burn is only reported once the snapshots span at least this long
+const MIN_OBSERVED_MS = 60 * 60 * 1000;
+
+// Most recent snapshots returned by the report
+const HISTORY_IN_REPORT = 20;
+
+// The credit manager does not expose the storage rate, so estimates state the rate they assume
+export const STORAGE_RATE_ASSUMPTION =
+  'Storage is assumed to cost 1 credit per byte per second of TTL. The network does not report its storage rate, so this is not read from the chain.';
+
+// A raw on-chain value as a decimal string, next to a human-readable rendering of it
+export interface Quantity {
+  raw: string;
+  formatted: string;
+}
+
+// A line of the credit history. Credit is in atto-credit and capacity in bytes, as decimal strings.
+export interface CreditSnapshot {
+  timestamp: string;
+  creditFree: string;
+  creditCommitted: string;
+  capacityUsed: string;
+  // Bytes and objects stored per bucket address; only in snapshots taken for a credit report
+  buckets?: Record<string, { bytes: string; objects: number }>;
+}
+
+export interface CostEstimate {
+  size: Quantity;
+  ttl: { seconds: number; formatted: string };
+  credit: Quantity;
+  tokens: Quantity;
+  creditFree: Quantity;
+  affordable: boolean;
+  // Credit missing for the write, and the tokens buy_credit would need to spend to cover it
+  shortfall: { credit: Quantity; tokens: Quantity } | null;
+  maxTtl: { seconds: number; formatted: string };
+  exceedsMaxTtl: boolean;
+  // Figures in the estimate that are not read from the chain
+  assumptions: string[];
+}
+
+export interface CreditReport {
+  current: {
+    timestamp: string;
+    creditFree: Quantity;
+    creditCommitted: Quantity;
+    capacityUsed: Quantity;
+  };
+  // Credit used per day, observed from the history when it spans long enough, else expected from the bytes stored
+  burnRate: { perDay: Quantity; basis: 'observed' | 'stored bytes' };
+  projectedExhaustion: { date: string; days: number } | null;
+  window: { from: string; to: string; snapshots: number };
+  buckets: {
+    bucket: Address;
+    alias: string | null;
+    objects: number;
+    bytes: Quantity;
+    // Growth since the oldest snapshot in the window that included the bucket
+    changeBytes: string | null;
+  }[];
+  history: { timestamp: string; creditFree: string; creditCommitted: string; capacityUsed: string }[];
+  // Figures in the report that are not read from the chain or the history
+  assumptions: string[];
+}
+
+/**
+ * Formats a byte count with binary units, e.g. 1.5 KiB.
+ * @param bytes The number of bytes.
+ * @returns The formatted size.
+ */
+export function formatBytes(bytes: bigint): string {
+  const units = ['B', 'KiB', 'MiB', 'GiB', 'TiB', 'PiB'];
+  let value = Number(bytes);
+  let unit = 0;
+  while (Math.abs(value) >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${unit ? Number(value.toFixed(2)) : value} ${units[unit]}`;
+}
+
+/**
+ * Formats an atto-credit amount as whole credits in compact notation, e.g. 1.5M credit.
+ * @param atto The amount in atto-credit.
+ * @returns The formatted amount.
+ */
+export function formatCredit(atto: bigint): string {
+  const whole = Number(formatUnits(atto, CREDIT_DECIMALS));
+  return `${new Intl.NumberFormat('en-US', { notation: 'compact', maximumFractionDigits: 2 }).format(whole)} credit`;
+}
+
+/**
+ * Formats a wei amount as whole tokens.
+ * @param wei The amount in wei.
+ * @returns The formatted amount.
+ */
+export function formatTokens(wei: bigint): string {
+  return `${formatEther(wei)} tokens`;
+}
+
+/**
+ * Formats a duration in seconds with its two largest units, e.g. 1d 6h.
+ * @param seconds The duration.
+ * @returns The formatted duration.
+ */
+export function formatDuration(seconds: number): string {
+  const units: [string, number][] = [['w', 604800], ['d', 86400], ['h', 3600], ['m', 60], ['s', 1]];
+  const parts: string[] = [];
+  let rest = Math.round(seconds);
+  for (const [name, size] of units) {
+    if (rest >= size && parts.length < 2) {
+      parts.push(`${Math.floor(rest / size)}${name}`);
+      rest %= size;
+    }
+  }
+  return parts.join(' ') || '0s';
+}
+
+const quantity = (raw: bigint, format: (value: bigint) => string): Quantity => ({ raw: raw.toString(), formatted: format(raw) });
+
+// Credit the account still holds, free or committed to stored objects
+const totalCredit = (snapshot: CreditSnapshot): bigint => BigInt(snapshot.creditFree) + BigInt(snapshot.creditCommitted);
+
+/**
+ * Tracks the account's credit over time and estimates storage costs. Snapshots are appended to a
+ * history in the profile's data directory, so burn rates cover earlier sessions too.
+ */
+export class CreditTracker {
+  // Snapshots are appended one at a time so concurrent calls cannot interleave lines
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private recallClient: RecallClientManager) {}
+
+  private get historyPath(): string {
+    return join(this.recallClient.profile.dataDir, 'credit-history.jsonl');
+  }
+
+  /**
+   * Reads the credit history.
+   * @returns Snapshots, oldest first.
+   */
+  public async getHistory(): Promise<CreditSnapshot[]> {
+    let content: string;
+    try {
+      content = await readFile(this.historyPath, 'utf8');
+    } catch {
+      return [];
+    }
+
+    const snapshots: CreditSnapshot[] = [];
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        snapshots.push(JSON.parse(line) as CreditSnapshot);
+      } catch {
+        logger.warn('Skipping malformed credit history line');
+      }
+    }
+    return snapshots;
+  }
+
+  /**
+   * Reads the account's credit and appends it to the history.
+   * @param buckets Buckets whose stored bytes to record as well. Each is listed in full, so this is slow for large buckets.
+   * @returns The recorded snapshot.
+   */
+  public async takeSnapshot(buckets: Address[] = []): Promise<CreditSnapshot> {
+    const credit = await this.recallClient.getCreditInfo();
+    const sizes = await mapConcurrent(buckets, config.RECALL_BATCH_CONCURRENCY, async (bucket) => {
+      const objects = await this.recallClient.listAllObjects(bucket);
+      return [bucket, { bytes: objects.reduce((sum, obj) => sum + obj.size, 0n).toString(), objects: objects.length }] as const;
+    });
+    const snapshot: CreditSnapshot = {
+      timestamp: new Date().toISOString(),
+      creditFree: credit.creditFree.toString(),
+      creditCommitted: credit.creditCommitted.toString(),
+      capacityUsed: credit.capacityUsed.toString(),
+      ...(buckets.length ? { buckets: Object.fromEntries(sizes) } : {}),
+    };
+
+    const append = this.queue.then(async () => {
+      await mkdir(dirname(this.historyPath), { recursive: true });
+      await appendFile(this.historyPath, `${JSON.stringify(snapshot)}\n`);
+    });
+    this.queue = append.catch(() => undefined);
+    await append;
+    return snapshot;
+  }
+
+  /**
+   * Estimates what storing an object costs, and whether the account's free credit covers it.
+   * @param size The object size in bytes.
+   * @param ttl How long the object is kept, in seconds.
+   * @returns The cost in credit and in tokens, with the account's free credit and TTL limit.
+   */
+  public async estimateCost(size: bigint, ttl: number): Promise<CostEstimate> {
+    const [account, stats] = await Promise.all([this.recallClient.getCreditInfo(), this.recallClient.getCreditStats()]);
+    const credit = size * BigInt(ttl) * ATTO_PER_CREDIT;
+    // Tokens are rounded up so that buying them is always enough
+    const toTokens = (atto: bigint): bigint =>
+      stats.tokenCreditRate > 0n ? (atto * RATE_SCALE + stats.tokenCreditRate - 1n) / stats.tokenCreditRate : 0n;
+    const shortfall = credit - account.creditFree;
+    const maxTtl = Number(account.maxTtl);
+
+    return {
+      size: quantity(size, formatBytes),
+      ttl: { seconds: ttl, formatted: formatDuration(ttl) },
+      credit: quantity(credit, formatCredit),
+      tokens: quantity(toTokens(credit), formatTokens),
+      creditFree: quantity(account.creditFree, formatCredit),
+      affordable: shortfall <= 0n,
+      shortfall: shortfall > 0n
+        ? { credit: quantity(shortfall, formatCredit), tokens: quantity(toTokens(shortfall), formatTokens) }
+        : null,
+      maxTtl: { seconds: maxTtl, formatted: formatDuration(maxTtl) },
+      exceedsMaxTtl: maxTtl > 0 && ttl > maxTtl,
+      assumptions: [STORAGE_RATE_ASSUMPTION],
+    };
+  }
+
+  /**
+   * Takes a snapshot and reports the credit burn rate, when credit runs out at that rate and
+   * the bytes stored per bucket.
+   * @param buckets The buckets to report stored bytes for, with their aliases. Each is listed in full.
+   * @param windowMs How far back the history is used for the burn rate.
+   * @returns The report.
+   */
+  public async report(buckets: { address: Address; alias: string | null }[], windowMs: number): Promise<CreditReport> {
+    const current = await this.takeSnapshot(buckets.map((bucket) => bucket.address));
+    const now = Date.parse(current.timestamp);
+    const snapshots = (await this.getHistory()).filter((snapshot) => Date.parse(snapshot.timestamp) >= now - windowMs);
+    const first = snapshots[0] ?? current;
+
+    // Credit only falls as stored objects are debited; a rise between snapshots is a purchase and counts as no burn
+    let burned = 0n;
+    for (let i = 1; i < snapshots.length; i++) {
+      const drop = totalCredit(snapshots[i - 1]) - totalCredit(snapshots[i]);
+      if (drop > 0n) burned += drop;
+    }
+    const elapsedMs = now - Date.parse(first.timestamp);
+    const observed = elapsedMs >= MIN_OBSERVED_MS;
+    const burnPerDay = observed
+      ? (burned * BigInt(DAY_MS)) / BigInt(elapsedMs)
+      : BigInt(current.capacityUsed) * BigInt(DAY_MS / 1000) * ATTO_PER_CREDIT;
+
+    const remaining = totalCredit(current);
+    const days = burnPerDay > 0n ? Number((remaining * 1000n) / burnPerDay) / 1000 : null;
+
+    return {
+      current: {
+        timestamp: current.timestamp,
+        creditFree: quantity(BigInt(current.creditFree), formatCredit),
+        creditCommitted: quantity(BigInt(current.creditCommitted), formatCredit),
+        capacityUsed: quantity(BigInt(current.capacityUsed), formatBytes),
+      },
+      burnRate: { perDay: quantity(burnPerDay, formatCredit), basis: observed ? 'observed' : 'stored bytes' },
+      projectedExhaustion: days === null ? null : { date: new Date(now + days * DAY_MS).toISOString(), days },
+      window: { from: first.timestamp, to: current.timestamp, snapshots: snapshots.length },
+      buckets: buckets.map(({ address, alias }) => {
+        const size = current.buckets?.[address];
+        const earliest = snapshots.find((snapshot) => snapshot.buckets?.[address])?.buckets?.[address];
+        return {
+          bucket: address,
+          alias,
+          objects: size?.objects ?? 0,
+          bytes: quantity(BigInt(size?.bytes ?? 0), formatBytes),
+          changeBytes: earliest && size ? (BigInt(size.bytes) - BigInt(earliest.bytes)).toString() : null,
+        };
+      }),
+      history: snapshots.slice(-HISTORY_IN_REPORT).map(({ timestamp, creditFree, creditCommitted, capacityUsed }) => ({
+        timestamp,
+        creditFree,
+        creditCommitted,
+        capacityUsed,
+      })),
+      assumptions: observed ? [] : [STORAGE_RATE_ASSUMPTION],
+    };
+  }
+}
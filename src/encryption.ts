@@ -0,0 +1,348 @@
+import { readFileSync } from 'fs';
+import sodium from 'sodium-native';
+import { Address } from 'viem';
+import { config, logger, takeSecretEnv } from './env.js';
+import { NotFoundError, RecallClientManager, toRecallError } from './recall-client.js';
+import { RESERVED_KEY_PREFIX } from './validation.js';
+
+// Where each bucket's wrapped data key is stored, so any client with the master key can find it
+export const DATA_KEY_OBJECT = `${RESERVED_KEY_PREFIX}data-key.json`;
+
+// Prefix of object keys whose names are encrypted
+export const ENCRYPTED_KEY_PREFIX = 'enc/';
+
+// Object metadata written alongside encrypted payloads
+export const ENCRYPTION_METADATA = {
+  algorithm: 'recall-enc',
+  nonce: 'recall-enc-nonce',
+  masterKeyId: 'recall-enc-master',
+  contentType: 'recall-enc-type',
+  encryptedKey: 'recall-enc-key',
+} as const;
+
+const ALGORITHM = 'xchacha20poly1305/v1';
+const KEY_NAME_SCHEME = 'siv/v1';
+
+// Subkeys derived from each bucket's data key
+const KDF_CONTEXT = Buffer.from('recallmc');
+const SUBKEY_PAYLOAD = 1;
+const SUBKEY_NAME_NONCE = 2;
+const SUBKEY_NAME_CIPHER = 3;
+
+const KEY_BYTES = sodium.crypto_aead_xchacha20poly1305_ietf_KEYBYTES;
+const NONCE_BYTES = sodium.crypto_aead_xchacha20poly1305_ietf_NPUBBYTES;
+const TAG_BYTES = sodium.crypto_aead_xchacha20poly1305_ietf_ABYTES;
+
+// The wrapped data key as stored in DATA_KEY_OBJECT
+interface WrappedDataKey {
+  version: 1;
+  algorithm: string;
+  masterKeyId: string;
+  nonce: string;
+  wrappedKey: string;
+}
+
+interface DataKey {
+  payload: sodium.SecureBuffer;
+  nameNonce: sodium.SecureBuffer;
+  nameCipher: sodium.SecureBuffer;
+}
+
+const secureBuffer = (length: number): sodium.SecureBuffer => {
+  const buffer = sodium.sodium_malloc(length) as sodium.SecureBuffer;
+  sodium.sodium_mlock(buffer);
+  return buffer;
+};
+
+const seal = (message: Uint8Array, ad: string, key: Buffer, nonce: Buffer): Buffer => {
+  const ciphertext = Buffer.alloc(message.length + TAG_BYTES);
+  sodium.crypto_aead_xchacha20poly1305_ietf_encrypt(ciphertext, Buffer.from(message), Buffer.from(ad), null, nonce, key);
+  return ciphertext;
+};
+
+const open = (ciphertext: Uint8Array, ad: string, key: Buffer, nonce: Buffer, what: string): Buffer => {
+  if (ciphertext.length < TAG_BYTES) {
+    throw new Error(`Cannot decrypt ${what}: ciphertext is truncated`);
+  }
+  const message = Buffer.alloc(ciphertext.length - TAG_BYTES);
+  try {
+    sodium.crypto_aead_xchacha20poly1305_ietf_decrypt(message, null, Buffer.from(ciphertext), Buffer.from(ad), nonce, key);
+  } catch {
+    throw new Error(`Cannot decrypt ${what}: wrong key or tampered data`);
+  }
+  return message;
+};
+
+const randomNonce = (): Buffer => {
+  const nonce = Buffer.alloc(NONCE_BYTES);
+  sodium.randombytes_buf(nonce);
+  return nonce;
+};
+
+let masterKey: sodium.SecureBuffer | null | undefined;
+
+// Load the master key once from RECALL_ENCRYPTION_KEY_FILE or RECALL_ENCRYPTION_KEY (hex or base64)
+const loadMasterKey = (): sodium.SecureBuffer | null => {
+  if (masterKey !== undefined) return masterKey;
+
+  const raw = config.RECALL_ENCRYPTION_KEY_FILE
+    ? readFileSync(config.RECALL_ENCRYPTION_KEY_FILE, 'utf8').trim()
+    : takeSecretEnv('RECALL_ENCRYPTION_KEY')?.trim();
+  if (!raw) {
+    masterKey = null;
+    return masterKey;
+  }
+
+  const decoded = /^(0x)?[0-9a-fA-F]{64}$/.test(raw)
+    ? Buffer.from(raw.replace(/^0x/, ''), 'hex')
+    : Buffer.from(raw, 'base64');
+  if (decoded.length !== KEY_BYTES) {
+    throw new Error(`The encryption master key must be ${KEY_BYTES} bytes, given as hex or base64`);
+  }
+
+  masterKey = secureBuffer(KEY_BYTES);
+  decoded.copy(masterKey);
+  decoded.fill(0);
+  logger.info('Client-side encryption enabled');
+  return masterKey;
+};
+
+// A public fingerprint of the master key, used to tell which key wrapped a data key
+const masterKeyId = (key: Buffer): string => {
+  const id = Buffer.alloc(16);
+  sodium.crypto_generichash(id, Buffer.from('recall-mcp master key id'), key);
+  return id.toString('hex');
+};
+
+/**
+ * Envelope encryption for object payloads and, optionally, object keys.
+ * Each bucket has a random data key, wrapped by the master key and stored in the bucket
+ * at DATA_KEY_OBJECT. Payloads are sealed with XChaCha20-Poly1305 bound to the bucket and
+ * key, and the nonce and original content type are kept in the object metadata. Encrypted
+ * key names are deterministic, so an object can still be fetched by its plaintext key.
+ */
+export class ObjectEncryption {
+  private dataKeys = new Map<Address, DataKey>();
+
+  constructor(private recallClient: RecallClientManager) {
+    loadMasterKey();
+  }
+
+  /**
+   * @returns True if a master key is configured.
+   */
+  public get enabled(): boolean {
+    return !!loadMasterKey();
+  }
+
+  private requireMasterKey(): sodium.SecureBuffer {
+    const key = loadMasterKey();
+    if (!key) {
+      throw new Error('Encryption needs a master key. Set RECALL_ENCRYPTION_KEY or RECALL_ENCRYPTION_KEY_FILE.');
+    }
+    return key;
+  }
+
+  private deriveDataKey(root: Buffer): DataKey {
+    const derive = (id: number) => {
+      const subkey = secureBuffer(KEY_BYTES);
+      sodium.crypto_kdf_derive_from_key(subkey, id, KDF_CONTEXT, root);
+      return subkey;
+    };
+    return {
+      payload: derive(SUBKEY_PAYLOAD),
+      nameNonce: derive(SUBKEY_NAME_NONCE),
+      nameCipher: derive(SUBKEY_NAME_CIPHER),
+    };
+  }
+
+  /**
+   * Loads the bucket's data key, creating and storing one if asked to.
+   * @param bucket The address of the bucket.
+   * @param create Whether to create the data key when the bucket has none.
+   * @returns The data key, or undefined if the bucket has none and create is false.
+   */
+  private async getDataKey(bucket: Address, create: boolean): Promise<DataKey | undefined> {
+    const cached = this.dataKeys.get(bucket);
+    if (cached) return cached;
+
+    const master = this.requireMasterKey();
+    const ad = bucket.toLowerCase();
+    const stored = await this.recallClient.getObject(bucket, DATA_KEY_OBJECT).catch((error) => {
+      if (error instanceof NotFoundError && error.code === 'OBJECT_NOT_FOUND') return undefined;
+      throw error;
+    });
+
+    if (stored) {
+      const wrapped = JSON.parse(Buffer.from(stored).toString('utf8')) as WrappedDataKey;
+      if (wrapped.masterKeyId !== masterKeyId(master)) {
+        throw new Error(`The data key of bucket ${bucket} was wrapped by a different master key`);
+      }
+      const root = open(Buffer.from(wrapped.wrappedKey, 'base64'), ad, master, Buffer.from(wrapped.nonce, 'base64'), 'data key');
+      const dataKey = this.deriveDataKey(root);
+      root.fill(0);
+      this.dataKeys.set(bucket, dataKey);
+      return dataKey;
+    }
+
+    if (!create) {
+      return undefined;
+    }
+
+    const root = Buffer.alloc(KEY_BYTES);
+    sodium.randombytes_buf(root);
+    const nonce = randomNonce();
+    const wrapped: WrappedDataKey = {
+      version: 1,
+      algorithm: ALGORITHM,
+      masterKeyId: masterKeyId(master),
+      nonce: nonce.toString('base64'),
+      wrappedKey: seal(root, ad, master, nonce).toString('base64'),
+    };
+
+    try {
+      await this.recallClient.addObject(bucket, DATA_KEY_OBJECT, JSON.stringify(wrapped, null, 2), {
+        contentType: 'application/json',
+      });
+    } catch (error) {
+      root.fill(0);
+      // Another writer may have created the data key first; use theirs if so
+      const existing = await this.getDataKey(bucket, false);
+      if (existing) return existing;
+      throw error;
+    }
+
+    const dataKey = this.deriveDataKey(root);
+    root.fill(0);
+    this.dataKeys.set(bucket, dataKey);
+    logger.info(`Created data key for bucket ${bucket}`);
+    return dataKey;
+  }
+
+  private encryptKeyName(bucket: Address, key: string, dataKey: DataKey): string {
+    // The nonce is a keyed hash of the name, so the same name always encrypts the same way
+    const nonce = Buffer.alloc(NONCE_BYTES);
+    sodium.crypto_generichash(nonce, Buffer.from(key, 'utf8'), dataKey.nameNonce);
+    const ciphertext = seal(Buffer.from(key, 'utf8'), bucket.toLowerCase(), dataKey.nameCipher, nonce);
+    return `${ENCRYPTED_KEY_PREFIX}${Buffer.concat([nonce, ciphertext]).toString('base64url')}`;
+  }
+
+  /**
+   * Encrypts an object for storage.
+   * @param bucket The address of the bucket.
+   * @param key The plaintext object key.
+   * @param data The plaintext payload.
+   * @param options Whether to encrypt the key name too, and the payload's content type.
+   * @returns The key to store under, the ciphertext and the metadata to store with it.
+   */
+  public async encrypt(
+    bucket: Address,
+    key: string,
+    data: Uint8Array,
+    options?: { encryptKey?: boolean; contentType?: string },
+  ): Promise<{ storedKey: string; data: Uint8Array; metadata: Record<string, string> }> {
+    if (key === DATA_KEY_OBJECT) {
+      throw new Error(`${DATA_KEY_OBJECT} is reserved for the bucket's data key`);
+    }
+    const dataKey = await this.getDataKey(bucket, true);
+    if (!dataKey) {
+      throw new Error(`No data key could be created for bucket ${bucket}`);
+    }
+    const nonce = randomNonce();
+
+    return {
+      storedKey: options?.encryptKey ? this.encryptKeyName(bucket, key, dataKey) : key,
+      data: seal(data, `${bucket.toLowerCase()}\n${key}`, dataKey.payload, nonce),
+      metadata: {
+        [ENCRYPTION_METADATA.algorithm]: ALGORITHM,
+        [ENCRYPTION_METADATA.nonce]: nonce.toString('base64'),
+        [ENCRYPTION_METADATA.masterKeyId]: masterKeyId(this.requireMasterKey()),
+        ...(options?.contentType ? { [ENCRYPTION_METADATA.contentType]: options.contentType } : {}),
+        ...(options?.encryptKey ? { [ENCRYPTION_METADATA.encryptedKey]: KEY_NAME_SCHEME } : {}),
+      },
+    };
+  }
+
+  /**
+   * Decrypts a stored object if its metadata marks it as encrypted.
+   * @param bucket The address of the bucket.
+   * @param key The plaintext object key.
+   * @param data The stored bytes.
+   * @param metadata The stored object metadata.
+   * @returns The plaintext and its original content type, or the data unchanged if it is not encrypted.
+   */
+  public async decrypt(
+    bucket: Address,
+    key: string,
+    data: Uint8Array,
+    metadata: Record<string, unknown> | undefined,
+  ): Promise<{ data: Uint8Array; encrypted: boolean; contentType?: string }> {
+    if (metadata?.[ENCRYPTION_METADATA.algorithm] === undefined) {
+      return { data, encrypted: false };
+    }
+    const algorithm = metadata[ENCRYPTION_METADATA.algorithm];
+    if (algorithm !== ALGORITHM) {
+      throw new Error(`Unsupported encryption algorithm: ${algorithm}`);
+    }
+
+    const dataKey = await this.getDataKey(bucket, false);
+    if (!dataKey) {
+      throw new Error(`Bucket ${bucket} has no data key, so ${key} cannot be decrypted`);
+    }
+    const nonce = Buffer.from(String(metadata[ENCRYPTION_METADATA.nonce]), 'base64');
+    const contentType = metadata[ENCRYPTION_METADATA.contentType];
+    return {
+      data: new Uint8Array(open(data, `${bucket.toLowerCase()}\n${key}`, dataKey.payload, nonce, key)),
+      encrypted: true,
+      contentType: typeof contentType === 'string' ? contentType : undefined,
+    };
+  }
+
+  // Whether an object exists; failures other than a missing object are rethrown
+  private async exists(bucket: Address, key: string): Promise<boolean> {
+    try {
+      await this.recallClient.getObjectInfo(bucket, key);
+      return true;
+    } catch (error) {
+      const recallError = toRecallError(error);
+      if (recallError.code === 'OBJECT_NOT_FOUND') return false;
+      throw recallError;
+    }
+  }
+
+  /**
+   * Finds the key an object is stored under: the key itself, or its encrypted name.
+   * @param bucket The address of the bucket.
+   * @param key The plaintext object key.
+   * @returns The stored key. The plaintext key is returned when neither exists.
+   * @throws RecallError if looking either key up fails for another reason than the object not existing.
+   */
+  public async resolveStoredKey(bucket: Address, key: string): Promise<string> {
+    if (!this.enabled || (await this.exists(bucket, key))) return key;
+
+    const dataKey = await this.getDataKey(bucket, false);
+    if (!dataKey) return key;
+    const storedKey = this.encryptKeyName(bucket, key, dataKey);
+    return (await this.exists(bucket, storedKey)) ? storedKey : key;
+  }
+
+  /**
+   * Decrypts an encrypted key name.
+   * @param bucket The address of the bucket.
+   * @param storedKey The stored key.
+   * @returns The plaintext key, or undefined if the key is not encrypted or cannot be decrypted.
+   */
+  public async decryptKeyName(bucket: Address, storedKey: string): Promise<string | undefined> {
+    if (!this.enabled || !storedKey.startsWith(ENCRYPTED_KEY_PREFIX)) return undefined;
+
+    try {
+      const dataKey = await this.getDataKey(bucket, false);
+      if (!dataKey) return undefined;
+      const raw = Buffer.from(storedKey.slice(ENCRYPTED_KEY_PREFIX.length), 'base64url');
+      const nonce = raw.subarray(0, NONCE_BYTES);
+      return open(raw.subarray(NONCE_BYTES), bucket.toLowerCase(), dataKey.nameCipher, nonce, 'key name').toString('utf8');
+    } catch {
+      return undefined;
+    }
+  }
+}
@@ -1,13 +1,43 @@
 import sodium from 'sodium-native';
 import chalk from 'chalk';
 import { readFileSync } from 'fs';
-import { dirname, resolve } from 'path';
+import { dirname, join, resolve } from 'path';
+import { homedir } from 'os';
 import { createHash } from 'crypto';
 import { fileURLToPath } from 'url';
 
 // Define types for configuration variables
 interface Config {
   RECALL_NETWORK: string;
+  RECALL_POLL_INTERVAL_MS: number;
+  RECALL_FILE_ROOT?: string;
+  RECALL_AGENT_ID: string;
+  RECALL_DATA_DIR: string;
+  RECALL_SEARCH_BUCKETS: string[];
+  RECALL_EMBEDDING_MODULE?: string;
+  RECALL_SEARCH_ENCRYPTED: boolean;
+  RECALL_MAX_CREDIT_PER_CALL: string;
+  RECALL_MAX_CREDIT_PER_DAY: string;
+  RECALL_MIN_WALLET_BALANCE: string;
+  RECALL_TOOL_PROFILE: 'readonly' | 'writer' | 'admin';
+  RECALL_BUCKET_ALLOW: string[];
+  RECALL_BUCKET_DENY: string[];
+  RECALL_TRANSPORT: string;
+  RECALL_HTTP_HOST: string;
+  RECALL_HTTP_PORT: number;
+  RECALL_HTTP_TOKEN?: string;
+  RECALL_PROFILES_FILE?: string;
+  RECALL_PROFILE?: string;
+  RECALL_ENCRYPTION_KEY_FILE?: string;
+  RECALL_ENCRYPT_KEYS: boolean;
+  RECALL_READ_TIMEOUT_MS: number;
+  RECALL_WRITE_TIMEOUT_MS: number;
+  RECALL_OPERATION_TIMEOUTS: Record<string, number>;
+  RECALL_MAX_ATTEMPTS: number;
+  RECALL_RETRY_BASE_DELAY_MS: number;
+  RECALL_RETRY_MAX_DELAY_MS: number;
+  RECALL_WAIT_FOR_RECEIPTS: boolean;
+  RECALL_BATCH_CONCURRENCY: number;
 }
 
 // Define logger interface
@@ -52,7 +82,8 @@ const __dirname = dirname(__filename);
 const ENV_FILE_PATH: string = resolve(__dirname, '..', '.env');
 const EXPECTED_ENV_HASH: string | null = process.env.ENV_FILE_HASH || null; // Optional integrity hash
 
-// Load secrets with priority: external env > .env file
+// Load secrets with priority: external env > .env file.
+// The key is optional: profiles can sign with a keystore, a vault or a remote signer instead.
 const loadSecrets = (): void => {
   if (secretLoaded) return;
 
@@ -69,8 +100,15 @@ const loadSecrets = (): void => {
   }
 
   // Fall back to .env file
+  let envContent: string;
+  try {
+    envContent = readFileSync(ENV_FILE_PATH, 'utf8');
+  } catch {
+    logger.info('No RECALL_PRIVATE_KEY set and no .env file found; profiles must use another signer.');
+    return;
+  }
+
   try {
-    const envContent: string = readFileSync(ENV_FILE_PATH, 'utf8');
     // Optional: Verify integrity with a precomputed hash
     if (EXPECTED_ENV_HASH) {
       const computedHash: string = createHash('sha256').update(envContent).digest('hex');
@@ -87,7 +125,8 @@ const loadSecrets = (): void => {
 
     const envKey: string | undefined = envVars.RECALL_PRIVATE_KEY;
     if (!envKey) {
-      throw new Error('RECALL_PRIVATE_KEY not found in .env file.');
+      logger.info('No RECALL_PRIVATE_KEY in .env; profiles must use another signer.');
+      return;
     }
 
     secretBuffer = sodium.sodium_malloc(envKey.length) as sodium.SecureBuffer;
@@ -99,22 +138,77 @@ const loadSecrets = (): void => {
   } catch (error: unknown) {
     const message: string = error instanceof Error ? error.message : String(error);
     logger.error(`Failed to load .env: ${message}`);
-    throw new Error(`Cannot proceed without RECALL_PRIVATE_KEY: ${message}`);
+    throw new Error(`Cannot load .env: ${message}`);
   }
 };
 
 // Initialize secrets
 loadSecrets();
 
+// Parse a positive integer setting, falling back to the default when unset or invalid
+const parsePositiveInt = (value: string | undefined, fallback: number): number => {
+  const parsed = Number.parseInt(value ?? '', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+// Parse a comma-separated list setting
+const parseList = (value: string | undefined): string[] =>
+  (value ?? '').split(',').map((item) => item.trim()).filter(Boolean);
+
+// Parse a comma-separated list of name=milliseconds overrides
+const parseDurations = (value: string | undefined): Record<string, number> =>
+  Object.fromEntries(parseList(value).map((entry) => {
+    const [name, ms] = entry.split('=');
+    return [name.trim(), Number(ms)];
+  }));
+
 // Export configuration object using Config interface
 export const config: Config = {
   RECALL_NETWORK: process.env.RECALL_NETWORK || 'testnet',
+  RECALL_POLL_INTERVAL_MS: parsePositiveInt(process.env.RECALL_POLL_INTERVAL_MS, 15000),
+  RECALL_FILE_ROOT: process.env.RECALL_FILE_ROOT || undefined,
+  RECALL_AGENT_ID: process.env.RECALL_AGENT_ID || 'default',
+  RECALL_DATA_DIR: process.env.RECALL_DATA_DIR || join(homedir(), '.recall-mcp'),
+  RECALL_SEARCH_BUCKETS: parseList(process.env.RECALL_SEARCH_BUCKETS),
+  RECALL_EMBEDDING_MODULE: process.env.RECALL_EMBEDDING_MODULE || undefined,
+  // Whether search indexes hold the decrypted content and keys of encrypted objects, in the clear
+  RECALL_SEARCH_ENCRYPTED: process.env.RECALL_SEARCH_ENCRYPTED === 'true',
+  // Spending limits for buy_credit, in whole tokens
+  RECALL_MAX_CREDIT_PER_CALL: process.env.RECALL_MAX_CREDIT_PER_CALL || '0.1',
+  RECALL_MAX_CREDIT_PER_DAY: process.env.RECALL_MAX_CREDIT_PER_DAY || '1',
+  RECALL_MIN_WALLET_BALANCE: process.env.RECALL_MIN_WALLET_BALANCE || '0',
+  // Tool permission profile and bucket access lists
+  RECALL_TOOL_PROFILE: (process.env.RECALL_TOOL_PROFILE || 'admin') as Config['RECALL_TOOL_PROFILE'],
+  RECALL_BUCKET_ALLOW: parseList(process.env.RECALL_BUCKET_ALLOW),
+  RECALL_BUCKET_DENY: parseList(process.env.RECALL_BUCKET_DENY),
+  // Transport: stdio for a single client, http to serve many clients from one process
+  RECALL_TRANSPORT: process.env.RECALL_TRANSPORT || 'stdio',
+  RECALL_HTTP_HOST: process.env.RECALL_HTTP_HOST || '127.0.0.1',
+  RECALL_HTTP_PORT: parsePositiveInt(process.env.RECALL_HTTP_PORT, 3000),
+  RECALL_HTTP_TOKEN: process.env.RECALL_HTTP_TOKEN || undefined,
+  // Named network and wallet profiles, and the one tools use by default
+  RECALL_PROFILES_FILE: process.env.RECALL_PROFILES_FILE || undefined,
+  RECALL_PROFILE: process.env.RECALL_PROFILE || undefined,
+  // Client-side encryption. The master key itself is read from RECALL_ENCRYPTION_KEY by the encryption module.
+  RECALL_ENCRYPTION_KEY_FILE: process.env.RECALL_ENCRYPTION_KEY_FILE || undefined,
+  RECALL_ENCRYPT_KEYS: process.env.RECALL_ENCRYPT_KEYS === 'true',
+  // Timeouts and retries of Recall network calls. RECALL_MAX_ATTEMPTS counts the first try.
+  RECALL_READ_TIMEOUT_MS: parsePositiveInt(process.env.RECALL_READ_TIMEOUT_MS, 30000),
+  RECALL_WRITE_TIMEOUT_MS: parsePositiveInt(process.env.RECALL_WRITE_TIMEOUT_MS, 120000),
+  RECALL_OPERATION_TIMEOUTS: parseDurations(process.env.RECALL_OPERATION_TIMEOUTS),
+  RECALL_MAX_ATTEMPTS: parsePositiveInt(process.env.RECALL_MAX_ATTEMPTS, 3),
+  RECALL_RETRY_BASE_DELAY_MS: parsePositiveInt(process.env.RECALL_RETRY_BASE_DELAY_MS, 500),
+  RECALL_RETRY_MAX_DELAY_MS: parsePositiveInt(process.env.RECALL_RETRY_MAX_DELAY_MS, 10000),
+  // Whether object writes return only once their transaction is confirmed
+  RECALL_WAIT_FOR_RECEIPTS: process.env.RECALL_WAIT_FOR_RECEIPTS !== 'false',
+  // How many items add_objects and get_objects process at once
+  RECALL_BATCH_CONCURRENCY: Math.min(parsePositiveInt(process.env.RECALL_BATCH_CONCURRENCY, 4), 16),
 };
 
 // Secure private key access
 export function getPrivateKey(): string {
   if (!secretBuffer) {
-    throw new Error('RECALL_PRIVATE_KEY is required but not available.');
+    throw new Error('RECALL_PRIVATE_KEY is required by the default signer but not available. Set it, or configure a keystore, vault or remote signer.');
   }
 
   const key: string = secretBuffer.toString('utf8');
@@ -125,10 +219,31 @@ export function getPrivateKey(): string {
   return key;
 }
 
+// Read a secret from an environment variable once, redacting it from the environment
+export function takeSecretEnv(name: string): string | undefined {
+  const value = process.env[name];
+  if (!value || value === '[REDACTED]') {
+    return undefined;
+  }
+  process.env[name] = '[REDACTED]';
+  return value;
+}
+
 // Validate environment
 export function validateEnv(): void {
-  if (!secretLoaded && !secretBuffer) {
-    throw new Error('Missing required RECALL_PRIVATE_KEY. Provide it via environment variables or .env.');
+  const amountVars: (keyof Config)[] = ['RECALL_MAX_CREDIT_PER_CALL', 'RECALL_MAX_CREDIT_PER_DAY', 'RECALL_MIN_WALLET_BALANCE'];
+  for (const name of amountVars) {
+    if (!/^\d+(\.\d+)?$/.test(String(config[name]))) {
+      throw new Error(`${name} must be a non-negative decimal token amount, got: ${config[name]}`);
+    }
+  }
+  if (!['readonly', 'writer', 'admin'].includes(config.RECALL_TOOL_PROFILE)) {
+    throw new Error(`RECALL_TOOL_PROFILE must be one of readonly, writer or admin, got: ${config.RECALL_TOOL_PROFILE}`);
+  }
+  for (const [name, ms] of Object.entries(config.RECALL_OPERATION_TIMEOUTS)) {
+    if (!name || !Number.isInteger(ms) || ms <= 0) {
+      throw new Error(`RECALL_OPERATION_TIMEOUTS entries must look like operation=milliseconds, got: ${name}=${ms}`);
+    }
   }
   const recommendedVars: (keyof Config)[] = ['RECALL_NETWORK'];
   const missing: string[] = recommendedVars.filter((v) => !process.env[v]);
@@ -143,5 +258,14 @@ export function logConfigStatus(): void {
   logger.info('Configuration loaded:');
   logger.info(`  • Source: ${secretLoaded ? (process.env.RECALL_PRIVATE_KEY === '[REDACTED]' ? 'external' : '.env') : 'none'}`);
   logger.info(`  • Network: ${config.RECALL_NETWORK}`);
+  logger.info(`  • Profiles: ${config.RECALL_PROFILES_FILE ?? '[DEFAULT ONLY]'}`);
+  logger.info(`  • Poll interval: ${config.RECALL_POLL_INTERVAL_MS}ms`);
+  logger.info(`  • File uploads: ${config.RECALL_FILE_ROOT ?? '[DISABLED]'}`);
+  logger.info(`  • Agent: ${config.RECALL_AGENT_ID}`);
+  logger.info(`  • Data directory: ${config.RECALL_DATA_DIR}`);
+  logger.info(`  • HTTP token: ${config.RECALL_HTTP_TOKEN ? '[PROVIDED]' : '[NOT SET]'}`);
+  logger.info(`  • Tool profile: ${config.RECALL_TOOL_PROFILE}`);
+  logger.info(`  • Timeouts: ${config.RECALL_READ_TIMEOUT_MS}ms read, ${config.RECALL_WRITE_TIMEOUT_MS}ms write, ${config.RECALL_MAX_ATTEMPTS} attempts`);
+  logger.info(`  • Credit limits: ${config.RECALL_MAX_CREDIT_PER_CALL} per call, ${config.RECALL_MAX_CREDIT_PER_DAY} per day, keep ${config.RECALL_MIN_WALLET_BALANCE}`);
   logger.info(`  • Private Key: ${secretBuffer ? '[PROVIDED]' : '[MISSING]'}`);
 }
\ No newline at end of file
@@ -0,0 +1,37 @@
+import { readFile, realpath, stat } from 'fs/promises';
+import { isAbsolute, relative, resolve, sep } from 'path';
+import { config } from './env.js';
+import { InvalidArgumentError } from './recall-client.js';
+
+/**
+ * Reads a local file for upload, refusing anything outside RECALL_FILE_ROOT.
+ * Paths are resolved relative to the root and symlinks are followed before the check,
+ * so neither `..` segments nor links can escape the allow-listed directory.
+ * @param path The file path, absolute or relative to the root.
+ * @returns The file contents and its resolved path.
+ */
+export async function readAllowedFile(path: string): Promise<{ data: Uint8Array; path: string }> {
+  if (!config.RECALL_FILE_ROOT) {
+    throw new InvalidArgumentError('File uploads are disabled. Set RECALL_FILE_ROOT to the directory files may be uploaded from.');
+  }
+
+  const root = await realpath(config.RECALL_FILE_ROOT);
+  let resolved: string;
+  try {
+    resolved = await realpath(resolve(root, path));
+  } catch {
+    throw new InvalidArgumentError(`File not found: ${path}`);
+  }
+
+  const rel = relative(root, resolved);
+  if (rel === '' || rel === '..' || rel.startsWith(`..${sep}`) || isAbsolute(rel)) {
+    throw new InvalidArgumentError(`Access denied: ${path} is outside the allowed upload directory`);
+  }
+
+  const info = await stat(resolved);
+  if (!info.isFile()) {
+    throw new InvalidArgumentError(`Not a regular file: ${path}`);
+  }
+
+  return { data: new Uint8Array(await readFile(resolved)), path: resolved };
+}
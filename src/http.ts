@@ -0,0 +1,118 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { createHash, timingSafeEqual } from 'crypto';
+import { createServer, IncomingMessage, Server as HttpServer, ServerResponse } from 'http';
+import { logger } from './env.js';
+
+export interface HttpServerOptions {
+  host: string;
+  port: number;
+  // Clients must send `Authorization: Bearer <token>` on every MCP request
+  token: string;
+}
+
+// Endpoint clients are told to POST their messages to, with ?sessionId=<id>
+const MESSAGES_PATH = '/messages';
+
+// Compare digests so neither the token length nor its contents leak through timing
+const tokenMatches = (header: string | undefined, token: string): boolean => {
+  const presented = /^Bearer\s+(.+)$/i.exec(header ?? '')?.[1] ?? '';
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(presented), digest(token));
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown): void => {
+  res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(body));
+};
+
+/**
+ * Serves MCP over HTTP with the SSE transport, one MCP server per client session.
+ * GET /sse opens a session, POST /messages?sessionId=<id> delivers client messages and
+ * GET /health reports liveness without authentication.
+ * @param createMcpServer Factory creating the MCP server for a new session.
+ * @param options The bind address, port and bearer token.
+ * @returns The listening HTTP server.
+ */
+export async function startHttpServer(
+  createMcpServer: () => Server,
+  options: HttpServerOptions,
+): Promise<HttpServer> {
+  const sessions = new Map<string, { transport: SSEServerTransport; server: Server }>();
+
+  const openSession = async (res: ServerResponse): Promise<void> => {
+    const transport = new SSEServerTransport(MESSAGES_PATH, res);
+    const server = createMcpServer();
+    sessions.set(transport.sessionId, { transport, server });
+    res.on('close', () => {
+      sessions.delete(transport.sessionId);
+      logger.info(`MCP session closed (${sessions.size} open)`);
+    });
+
+    await server.connect(transport);
+    logger.info(`MCP session opened (${sessions.size} open)`);
+  };
+
+  const handle = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+
+    if (req.method === 'GET' && url.pathname === '/health') {
+      sendJson(res, 200, { status: 'ok', sessions: sessions.size });
+      return;
+    }
+
+    if (!tokenMatches(req.headers.authorization, options.token)) {
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      sendJson(res, 401, { error: 'Missing or invalid bearer token' });
+      return;
+    }
+
+    if (req.method === 'GET' && url.pathname === '/sse') {
+      await openSession(res);
+      return;
+    }
+
+    if (req.method === 'POST' && url.pathname === MESSAGES_PATH) {
+      const session = sessions.get(url.searchParams.get('sessionId') ?? '');
+      if (!session) {
+        sendJson(res, 404, { error: 'Unknown or expired session' });
+        return;
+      }
+      await session.transport.handlePostMessage(req, res);
+      return;
+    }
+
+    sendJson(res, 404, { error: 'Not found' });
+  };
+
+  const httpServer = createServer((req, res) => {
+    handle(req, res).catch((error: unknown) => {
+      logger.error(`HTTP request failed: ${error instanceof Error ? error.message : String(error)}`);
+      if (!res.headersSent) {
+        sendJson(res, 500, { error: 'Internal server error' });
+      }
+    });
+  });
+
+  // Close every session first, which ends its event stream, so the HTTP server has no open connections left to wait for
+  const shutdown = async (): Promise<void> => {
+    logger.info(`Shutting down HTTP server (${sessions.size} sessions open)`);
+    await Promise.allSettled([...sessions.values()].map(({ server }) => server.close()));
+    await new Promise<void>((resolve) => {
+      httpServer.close(() => resolve());
+      httpServer.closeIdleConnections();
+    });
+    process.exit(0);
+  };
+  process.once('SIGINT', () => void shutdown());
+  process.once('SIGTERM', () => void shutdown());
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+  logger.info(`Recall MCP Server listening on http://${options.host}:${options.port} (SSE at /sse)`);
+  return httpServer;
+}
@@ -0,0 +1,66 @@
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { Hex, isHex } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { openVault, promptHidden, sealVault, VaultFile } from './signers.js';
+
+const USAGE = `Usage:
+  npm run keytool -- vault-add <vault-file> <name>   Add or replace a private key in a vault
+  npm run keytool -- vault-list <vault-file>         List key names and addresses in a vault`;
+
+// Prompts twice for a new passphrase so a typo cannot lock the vault
+const promptNewPassphrase = (): string => {
+  const passphrase = promptHidden('New vault passphrase: ');
+  if (passphrase.length < 8) {
+    throw new Error('Vault passphrase must be at least 8 characters');
+  }
+  if (promptHidden('Repeat passphrase: ') !== passphrase) {
+    throw new Error('Passphrases do not match');
+  }
+  return passphrase;
+};
+
+const readVault = (path: string): VaultFile => JSON.parse(readFileSync(path, 'utf8')) as VaultFile;
+
+// Add a key to a vault, creating the vault if the file does not exist
+function vaultAdd(path: string, name: string): void {
+  const exists = existsSync(path);
+  const passphrase = exists ? promptHidden(`Passphrase for vault ${path}: `) : promptNewPassphrase();
+  const keys = exists ? openVault(readVault(path), passphrase) : {};
+
+  const raw = promptHidden(`Private key for ${name}: `).trim();
+  const key = (raw.startsWith('0x') ? raw : `0x${raw}`) as Hex;
+  if (!isHex(key) || key.length !== 66) {
+    throw new Error('Private key must be 32 bytes of hex');
+  }
+
+  keys[name] = key;
+  writeFileSync(path, JSON.stringify(sealVault(keys, passphrase), null, 2), { mode: 0o600 });
+  process.stderr.write(`Stored ${name} (${privateKeyToAccount(key).address}) in ${path}\n`);
+}
+
+// List the names and addresses in a vault without printing keys
+function vaultList(path: string): void {
+  const keys = openVault(readVault(path), promptHidden(`Passphrase for vault ${path}: `));
+  for (const [name, key] of Object.entries(keys)) {
+    process.stdout.write(`${name}\t${privateKeyToAccount(key).address}\n`);
+  }
+}
+
+function main(): void {
+  const [command, path, name] = process.argv.slice(2);
+  if (command === 'vault-add' && path && name) {
+    vaultAdd(path, name);
+  } else if (command === 'vault-list' && path) {
+    vaultList(path);
+  } else {
+    process.stderr.write(`${USAGE}\n`);
+    process.exitCode = 1;
+  }
+}
+
+try {
+  main();
+} catch (error: any) {
+  process.stderr.write(`Error: ${error.message}\n`);
+  process.exitCode = 1;
+}
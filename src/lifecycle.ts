@@ -0,0 +1,217 @@
+import { Address } from 'viem';
+import { ObjectEncryption } from './encryption.js';
+import { logger } from './env.js';
+import { CREATED_AT_METADATA, InvalidArgumentError, RecallClientManager, toRecallError } from './recall-client.js';
+import { parseDuration, RESERVED_KEY_PREFIX } from './validation.js';
+
+// Each bucket's lifecycle policy is stored in the bucket itself, as plain JSON
+export const LIFECYCLE_POLICY_OBJECT = `${RESERVED_KEY_PREFIX}lifecycle.json`;
+
+const POLICY_VERSION = 1;
+
+/**
+ * A lifecycle rule: objects under the prefix are deleted once they are older than
+ * expireAfter, or once keepLast newer objects exist under the prefix.
+ */
+export interface LifecycleRule {
+  id?: string;
+  prefix: string;
+  expireAfter?: string;
+  keepLast?: number;
+}
+
+export interface LifecyclePolicy {
+  version: number;
+  rules: LifecycleRule[];
+  updatedAt: string;
+}
+
+// An object a rule would delete, by plaintext key, with the stored key when it differs
+export interface LifecycleAction {
+  key: string;
+  storedKey?: string;
+  rule: string;
+  reason: string;
+  createdAt: string | null;
+}
+
+export interface LifecyclePlan {
+  evaluated: number;
+  actions: LifecycleAction[];
+  // Objects under a rule that have no creation time, so no rule deletes them
+  undated: string[];
+}
+
+// An object as the rules see it
+interface Candidate {
+  key: string;
+  storedKey: string;
+  createdAt: string | null;
+}
+
+const ruleName = (rule: LifecycleRule, index: number): string => rule.id ?? `rule ${index + 1}`;
+
+/**
+ * Manages per-bucket lifecycle policies and deletes the objects they expire. Ages come from the
+ * creation time every write records in the object metadata; objects stored without it are never
+ * deleted, by expireAfter or keepLast, and are reported as undated instead.
+ */
+export class LifecycleManager {
+  constructor(
+    private recallClient: RecallClientManager,
+    private objectEncryption: ObjectEncryption,
+  ) {}
+
+  /**
+   * Reads a bucket's lifecycle policy.
+   * @param bucket The address of the bucket.
+   * @returns The policy, or null if the bucket has none.
+   */
+  public async getPolicy(bucket: Address): Promise<LifecyclePolicy | null> {
+    let content: string;
+    try {
+      content = await this.recallClient.getObjectAsString(bucket, LIFECYCLE_POLICY_OBJECT);
+    } catch (error) {
+      if (toRecallError(error).code === 'OBJECT_NOT_FOUND') return null;
+      throw error;
+    }
+    try {
+      return JSON.parse(content) as LifecyclePolicy;
+    } catch {
+      throw new InvalidArgumentError(`The lifecycle policy of bucket ${bucket} is not valid JSON. Set it again with set_lifecycle_policy.`);
+    }
+  }
+
+  /**
+   * Replaces a bucket's lifecycle policy. An empty rule list removes the policy.
+   * @param bucket The address of the bucket.
+   * @param rules The rules.
+   * @returns The stored policy, or null if it was removed.
+   * @throws InvalidArgumentError if a rule has no action or covers the reserved prefix, or two rules share an id.
+   */
+  public async setPolicy(bucket: Address, rules: LifecycleRule[]): Promise<LifecyclePolicy | null> {
+    rules.forEach((rule, index) => {
+      if (rule.expireAfter === undefined && rule.keepLast === undefined) {
+        throw new InvalidArgumentError(`Lifecycle ${ruleName(rule, index)} needs expireAfter, keepLast or both.`);
+      }
+      if (rule.prefix.startsWith(RESERVED_KEY_PREFIX)) {
+        throw new InvalidArgumentError(`Lifecycle rules cannot apply to ${RESERVED_KEY_PREFIX}, which holds server state.`);
+      }
+    });
+    const ids = rules.flatMap((rule) => (rule.id ? [rule.id] : []));
+    const duplicates = ids.filter((id, index) => ids.indexOf(id) !== index);
+    if (duplicates.length) {
+      throw new InvalidArgumentError(`Duplicate lifecycle rule ids: ${[...new Set(duplicates)].join(', ')}`);
+    }
+
+    if (!rules.length) {
+      if (await this.getPolicy(bucket)) {
+        await this.recallClient.deleteObject(bucket, LIFECYCLE_POLICY_OBJECT, { waitForReceipt: true });
+      }
+      return null;
+    }
+
+    const policy: LifecyclePolicy = { version: POLICY_VERSION, rules, updatedAt: new Date().toISOString() };
+    await this.recallClient.addObject(bucket, LIFECYCLE_POLICY_OBJECT, JSON.stringify(policy, null, 2), {
+      overwrite: true,
+      contentType: 'application/json',
+      waitForReceipt: true,
+    });
+    return policy;
+  }
+
+  /**
+   * Works out which objects a policy deletes. An object matched by several rules is reported
+   * under the first rule that deletes it.
+   * @param bucket The address of the bucket.
+   * @param policy The policy to evaluate.
+   * @param now The time ages are measured at, in milliseconds.
+   * @returns The objects to delete, and the objects whose age is unknown.
+   */
+  public async plan(bucket: Address, policy: LifecyclePolicy, now = Date.now()): Promise<LifecyclePlan> {
+    const candidates: Candidate[] = await Promise.all(
+      (await this.recallClient.listAllObjects(bucket))
+        .filter((obj) => !obj.key.startsWith(RESERVED_KEY_PREFIX))
+        .map(async (obj) => {
+          const created = obj.metadata?.[CREATED_AT_METADATA];
+          return {
+            key: (await this.objectEncryption.decryptKeyName(bucket, obj.key)) ?? obj.key,
+            storedKey: obj.key,
+            createdAt: typeof created === 'string' && !Number.isNaN(Date.parse(created)) ? created : null,
+          };
+        }),
+    );
+
+    const actions = new Map<string, LifecycleAction>();
+    const undated = new Set<string>();
+    const condemn = (candidate: Candidate, rule: string, reason: string) => {
+      if (actions.has(candidate.storedKey)) return;
+      actions.set(candidate.storedKey, {
+        key: candidate.key,
+        ...(candidate.storedKey !== candidate.key ? { storedKey: candidate.storedKey } : {}),
+        rule,
+        reason,
+        createdAt: candidate.createdAt,
+      });
+    };
+
+    policy.rules.forEach((rule, index) => {
+      const name = ruleName(rule, index);
+      const matching = candidates.filter((candidate) => candidate.key.startsWith(rule.prefix));
+
+      if (rule.expireAfter !== undefined) {
+        const maxAgeMs = parseDuration(rule.expireAfter) * 1000;
+        for (const candidate of matching) {
+          if (!candidate.createdAt) {
+            undated.add(candidate.key);
+          } else if (now - Date.parse(candidate.createdAt) > maxAgeMs) {
+            condemn(candidate, name, `older than ${rule.expireAfter}`);
+          }
+        }
+      }
+
+      if (rule.keepLast !== undefined) {
+        // Only dated objects are ranked, newest first; undated ones are neither kept nor counted
+        const dated = matching.filter((candidate) => candidate.createdAt);
+        for (const candidate of matching) {
+          if (!candidate.createdAt) undated.add(candidate.key);
+        }
+        const newestFirst = dated.sort((a, b) =>
+          Date.parse(b.createdAt ?? '') - Date.parse(a.createdAt ?? '') || b.key.localeCompare(a.key));
+        for (const candidate of newestFirst.slice(rule.keepLast)) {
+          condemn(candidate, name, `not among the newest ${rule.keepLast} under "${rule.prefix}"`);
+        }
+      }
+    });
+
+    return { evaluated: candidates.length, actions: [...actions.values()], undated: [...undated] };
+  }
+
+  /**
+   * Deletes the objects a plan lists. Deletion continues past individual failures, which are reported per key.
+   * @param bucket The address of the bucket.
+   * @param actions The plan's actions.
+   * @returns The deleted keys and the keys that could not be deleted.
+   */
+  public async apply(
+    bucket: Address,
+    actions: LifecycleAction[],
+  ): Promise<{ deleted: string[]; failed: { key: string; error: string; code: string }[] }> {
+    const deleted: string[] = [];
+    const failed: { key: string; error: string; code: string }[] = [];
+
+    // Deletes are sent one at a time so they don't race on the wallet nonce
+    for (const action of actions) {
+      try {
+        await this.recallClient.deleteObject(bucket, action.storedKey ?? action.key);
+        deleted.push(action.key);
+      } catch (error) {
+        const { message, code } = toRecallError(error);
+        failed.push({ key: action.key, error: message, code });
+      }
+    }
+    logger.info(`Lifecycle deleted ${deleted.length} of ${actions.length} objects in ${bucket}`);
+
+    return { deleted, failed };
+  }
+}
@@ -0,0 +1,268 @@
+import { randomBytes } from 'crypto';
+import { Address } from 'viem';
+import { decodeUtf8 } from './content.js';
+import { ObjectEncryption } from './encryption.js';
+import { config } from './env.js';
+import {
+  BucketObject,
+  InvalidArgumentError,
+  NotFoundError,
+  RecallClientManager,
+  ReceiptSummary,
+  summarizeReceipt,
+  toRecallError,
+} from './recall-client.js';
+
+// Buckets holding agent memories are named `${MEMORY_BUCKET_PREFIX}<agent>`
+export const MEMORY_BUCKET_PREFIX = 'agent-memory-';
+
+// All memories live under this prefix, laid out as memories/<yyyy>/<mm>/<dd>/<id>.json
+export const MEMORY_KEY_PREFIX = 'memories/';
+
+// A memory record as stored in Recall
+export interface MemoryRecord {
+  id: string;
+  content: string;
+  tags: string[];
+  source: string | null;
+  importance: number;
+  timestamp: string;
+}
+
+export interface RememberInput {
+  agent?: string;
+  content: string;
+  tags?: string[];
+  source?: string;
+  importance?: number;
+}
+
+export interface RecallMemoriesQuery {
+  agent?: string;
+  tags?: string[];
+  since?: string;
+  until?: string;
+  prefix?: string;
+  minImportance?: number;
+  limit?: number;
+}
+
+const DEFAULT_IMPORTANCE = 0.5;
+const DEFAULT_RECALL_LIMIT = 20;
+
+const normalizeTag = (tag: string): string => tag.trim().toLowerCase();
+
+const parseDate = (value: string, name: string): Date => {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new InvalidArgumentError(`Invalid ${name} date: ${value}`);
+  }
+  return date;
+};
+
+// memories/<yyyy>/<mm>/<dd>/ for the UTC day of the given time
+export const datePrefix = (date: Date): string => {
+  const yyyy = date.getUTCFullYear().toString().padStart(4, '0');
+  const mm = (date.getUTCMonth() + 1).toString().padStart(2, '0');
+  const dd = date.getUTCDate().toString().padStart(2, '0');
+  return `${MEMORY_KEY_PREFIX}${yyyy}/${mm}/${dd}/`;
+};
+
+// Memory ids start with the creation time, so the key can be rebuilt from the id alone
+export const memoryKey = (id: string): string => {
+  const match = /^(\d{13})-[0-9a-f]{8}$/.exec(id);
+  if (!match) {
+    throw new InvalidArgumentError(`Invalid memory id: ${id}`);
+  }
+  return `${datePrefix(new Date(Number(match[1])))}${id}.json`;
+};
+
+// Longest shared prefix of two strings, cut back to the last path separator
+export const commonPathPrefix = (a: string, b: string): string => {
+  let i = 0;
+  while (i < a.length && i < b.length && a[i] === b[i]) i++;
+  return a.slice(0, a.lastIndexOf('/', i - 1) + 1);
+};
+
+/**
+ * Structured long-term memory for agents on top of Recall buckets.
+ * Tags, importance and timestamp are copied into object metadata so queries can be
+ * filtered from a bucket listing without downloading every record. When a master key
+ * is set, records are encrypted like any other object; their keys and metadata are not.
+ */
+export class MemoryStore {
+  constructor(
+    private recallClient: RecallClientManager,
+    private objectEncryption: ObjectEncryption,
+  ) {}
+
+  /**
+   * @param agent The agent name, defaulting to RECALL_AGENT_ID.
+   * @returns The alias of the agent's memory bucket.
+   */
+  public bucketAlias(agent?: string): string {
+    const name = (agent ?? config.RECALL_AGENT_ID).trim();
+    if (!/^[A-Za-z0-9_.-]+$/.test(name)) {
+      throw new InvalidArgumentError(`Invalid agent name: ${name}. Use letters, digits, ".", "_" or "-".`);
+    }
+    return `${MEMORY_BUCKET_PREFIX}${name}`;
+  }
+
+  /**
+   * Stores a memory record in the agent's memory bucket.
+   * @param input The memory content and its tags, source and importance.
+   * @param options Whether a missing memory bucket may be created.
+   * @returns The stored record, its key, the bucket address and the write's receipt.
+   * @throws NotFoundError if the bucket does not exist and may not be created.
+   */
+  public async remember(
+    input: RememberInput,
+    options: { createBucket?: boolean } = {},
+  ): Promise<{ record: MemoryRecord; key: string; bucket: Address; receipt: ReceiptSummary | null }> {
+    const importance = input.importance ?? DEFAULT_IMPORTANCE;
+    if (!Number.isFinite(importance) || importance < 0 || importance > 1) {
+      throw new InvalidArgumentError('Memory importance must be a number between 0 and 1');
+    }
+    const tags = [...new Set((input.tags ?? []).map(normalizeTag).filter(Boolean))];
+    if (tags.some((tag) => tag.includes(','))) {
+      throw new InvalidArgumentError('Memory tags cannot contain commas');
+    }
+
+    const now = new Date();
+    const record: MemoryRecord = {
+      id: `${now.getTime()}-${randomBytes(4).toString('hex')}`,
+      content: input.content,
+      tags,
+      source: input.source ?? null,
+      importance,
+      timestamp: now.toISOString(),
+    };
+    const key = memoryKey(record.id);
+
+    const alias = this.bucketAlias(input.agent);
+    const bucket = options.createBucket
+      ? await this.recallClient.getOrCreateBucket(alias)
+      : await this.recallClient.findBucketByAlias(alias);
+    if (!bucket) {
+      throw new NotFoundError('BUCKET_NOT_FOUND', `Memory bucket ${alias} does not exist`, {
+        hint: `Ask an admin to create it with ensure_bucket using the alias ${alias}.`,
+      });
+    }
+    const metadata: Record<string, string> = {
+      type: 'memory',
+      tags: tags.join(','),
+      importance: importance.toString(),
+      timestamp: record.timestamp,
+      ...(record.source ? { source: record.source } : {}),
+    };
+    const json = new TextEncoder().encode(JSON.stringify(record, null, 2));
+    // Keys stay in the clear so the date layout can still narrow listings
+    const sealed = this.objectEncryption.enabled
+      ? await this.objectEncryption.encrypt(bucket, key, json, { contentType: 'application/json' })
+      : undefined;
+    const result = await this.recallClient.addObject(bucket, key, sealed?.data ?? json, {
+      contentType: sealed ? 'application/octet-stream' : 'application/json',
+      metadata: { ...metadata, ...sealed?.metadata },
+    });
+
+    return { record, key, bucket, receipt: result.meta?.tx ? summarizeReceipt(result.meta.tx) : null };
+  }
+
+  /**
+   * Retrieves memories matching every given filter, newest first.
+   * @param query Tag, time range, key prefix and importance filters.
+   * @returns The matching records with their keys, and the keys of records that could not be read.
+   */
+  public async recall(query: RecallMemoriesQuery): Promise<{
+    memories: { key: string; record: MemoryRecord }[];
+    skipped: { key: string; error: string }[];
+  }> {
+    const bucket = await this.recallClient.findBucketByAlias(this.bucketAlias(query.agent));
+    if (!bucket) {
+      return { memories: [], skipped: [] };
+    }
+
+    const since = query.since ? parseDate(query.since, 'since').getTime() : -Infinity;
+    const until = query.until ? parseDate(query.until, 'until').getTime() : Infinity;
+    const tags = (query.tags ?? []).map(normalizeTag).filter(Boolean);
+    const limit = query.limit ?? DEFAULT_RECALL_LIMIT;
+    if (!Number.isInteger(limit) || limit < 1) {
+      throw new InvalidArgumentError('Memory limit must be a positive integer');
+    }
+
+    // Narrow the listing to the date folders the time range can fall in
+    let prefix = query.prefix ?? MEMORY_KEY_PREFIX;
+    if (!query.prefix && Number.isFinite(since) && Number.isFinite(until)) {
+      prefix = commonPathPrefix(datePrefix(new Date(since)), datePrefix(new Date(until)));
+    }
+
+    const matches = (await this.recallClient.listAllObjects(bucket, prefix))
+      .filter((obj) => obj.metadata?.type === 'memory')
+      .filter((obj) => this.matchesMetadata(obj, { since, until, tags, minImportance: query.minImportance }))
+      .sort((a, b) => b.key.localeCompare(a.key))
+      .slice(0, limit);
+
+    // A record that cannot be read or parsed is reported rather than failing the whole recall
+    const memories: { key: string; record: MemoryRecord }[] = [];
+    const skipped: { key: string; error: string }[] = [];
+    const contents = await Promise.allSettled(matches.map(async (obj) => {
+      const data = await this.recallClient.getObject(bucket, obj.key);
+      if (!data) {
+        throw new NotFoundError('OBJECT_NOT_FOUND', `Object not found: ${obj.key} in bucket ${bucket}`);
+      }
+      return decodeUtf8((await this.objectEncryption.decrypt(bucket, obj.key, data, obj.metadata)).data);
+    }));
+    contents.forEach((content, index) => {
+      const { key } = matches[index];
+      if (content.status === 'rejected') {
+        skipped.push({ key, error: toRecallError(content.reason).message });
+        return;
+      }
+      try {
+        memories.push({ key, record: JSON.parse(content.value ?? '') as MemoryRecord });
+      } catch {
+        skipped.push({ key, error: 'Record is not valid JSON' });
+      }
+    });
+    return { memories, skipped };
+  }
+
+  /**
+   * Deletes a memory by id.
+   * @param id The memory id returned by remember.
+   * @param agent The agent whose memory bucket holds the memory.
+   * @returns The deleted key, the bucket address and the delete's receipt.
+   */
+  public async forget(
+    id: string,
+    agent?: string,
+  ): Promise<{ key: string; bucket: Address; transactionHash: string | null; receipt: ReceiptSummary | null }> {
+    const key = memoryKey(id);
+    const bucket = await this.recallClient.findBucketByAlias(this.bucketAlias(agent));
+    if (!bucket) {
+      throw new NotFoundError('BUCKET_NOT_FOUND', `No memories stored for agent ${agent ?? config.RECALL_AGENT_ID}`);
+    }
+
+    const result = await this.recallClient.deleteObject(bucket, key);
+    const tx = result.meta?.tx;
+    return { key, bucket, transactionHash: tx?.transactionHash ?? null, receipt: tx ? summarizeReceipt(tx) : null };
+  }
+
+  private matchesMetadata(
+    obj: BucketObject,
+    filter: { since: number; until: number; tags: string[]; minImportance?: number },
+  ): boolean {
+    const metadata = obj.metadata ?? {};
+    const timestamp = Date.parse(String(metadata.timestamp));
+    if (Number.isNaN(timestamp) || timestamp < filter.since || timestamp > filter.until) {
+      return false;
+    }
+
+    const objectTags = String(metadata.tags ?? '').split(',').filter(Boolean);
+    if (!filter.tags.every((tag) => objectTags.includes(tag))) {
+      return false;
+    }
+
+    return filter.minImportance === undefined || Number(metadata.importance) >= filter.minImportance;
+  }
+}
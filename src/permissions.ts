@@ -0,0 +1,163 @@
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { Address, isAddress } from 'viem';
+import { config } from './env.js';
+import { RecallClientManager, RecallError } from './recall-client.js';
+
+export const PERMISSION_PROFILES = ['readonly', 'writer', 'admin'] as const;
+export type PermissionProfile = (typeof PERMISSION_PROFILES)[number];
+
+type PermissionLevel = 'read' | 'write' | 'admin';
+
+// The permission level each tool needs. Tools missing from this map need admin.
+const TOOL_PERMISSIONS: Record<string, PermissionLevel> = {
+  get_account: 'read',
+  get_balance: 'read',
+  estimate_cost: 'read',
+  credit_report: 'read',
+  get_spending_status: 'read',
+  get_pending_transactions: 'read',
+  get_transaction: 'read',
+  get_network_status: 'read',
+  list_buckets: 'read',
+  list_bucket_objects: 'read',
+  get_lifecycle_policy: 'read',
+  get_object: 'read',
+  get_objects: 'read',
+  search_objects: 'read',
+  recall_memories: 'read',
+  list_profiles: 'read',
+  security_guidance: 'read',
+
+  add_object: 'write',
+  add_file: 'write',
+  add_objects: 'write',
+  delete_object: 'write',
+  remember: 'write',
+  forget: 'write',
+
+  buy_credit: 'admin',
+  create_bucket: 'admin',
+  ensure_bucket: 'admin',
+  delete_prefix: 'admin',
+  empty_bucket: 'admin',
+  set_lifecycle_policy: 'admin',
+  apply_lifecycle: 'admin',
+};
+
+const PROFILE_LEVELS: Record<PermissionProfile, PermissionLevel[]> = {
+  readonly: ['read'],
+  writer: ['read', 'write'],
+  admin: ['read', 'write', 'admin'],
+};
+
+export type PolicyViolation = 'TOOL_NOT_PERMITTED' | 'BUCKET_NOT_PERMITTED';
+
+/**
+ * Raised when a tool call or resource read is outside the configured access policy.
+ */
+export class PolicyError extends RecallError {
+  declare readonly code: PolicyViolation;
+  declare readonly details: Record<string, string>;
+
+  constructor(code: PolicyViolation, message: string, details: Record<string, string> = {}) {
+    super(code, message, { details, hint: POLICY_HINTS[code] });
+    this.name = 'PolicyError';
+  }
+}
+
+const POLICY_HINTS: Record<PolicyViolation, string> = {
+  TOOL_NOT_PERMITTED: 'The server operator has not granted this tool. Use a tool from tools/list instead.',
+  BUCKET_NOT_PERMITTED: 'The server operator has restricted which buckets may be used. Pick another bucket.',
+};
+
+/**
+ * Access policy selected by configuration: a named tool profile plus optional
+ * per-bucket allow and deny lists. Bucket rules match either an alias or an address,
+ * and a deny rule always wins over an allow rule.
+ */
+export class AccessPolicy {
+  constructor(
+    private recallClient: RecallClientManager,
+    private readonly profile: PermissionProfile = config.RECALL_TOOL_PROFILE,
+    private readonly allowBuckets: string[] = config.RECALL_BUCKET_ALLOW,
+    private readonly denyBuckets: string[] = config.RECALL_BUCKET_DENY,
+  ) {}
+
+  /**
+   * Checks whether the profile grants a tool.
+   * @param name The tool name.
+   * @returns True if the tool may be listed and called.
+   */
+  public isToolAllowed(name: string): boolean {
+    return PROFILE_LEVELS[this.profile].includes(TOOL_PERMISSIONS[name] ?? 'admin');
+  }
+
+  /**
+   * Filters a tool list down to the tools the profile grants.
+   * @param tools The full tool list.
+   * @returns The permitted tools.
+   */
+  public filterTools(tools: Tool[]): Tool[] {
+    return tools.filter((tool) => this.isToolAllowed(tool.name));
+  }
+
+  /**
+   * @param name The tool name.
+   * @throws PolicyError if the profile does not grant the tool.
+   */
+  public assertToolAllowed(name: string): void {
+    if (!this.isToolAllowed(name)) {
+      throw new PolicyError('TOOL_NOT_PERMITTED', `Tool ${name} is not permitted by the "${this.profile}" profile`, {
+        tool: name,
+        profile: this.profile,
+      });
+    }
+  }
+
+  private matches(rules: string[], bucket: { address?: Address; alias?: string }): boolean {
+    return rules.some((rule) => isAddress(rule, { strict: false })
+      ? !!bucket.address && rule.toLowerCase() === bucket.address.toLowerCase()
+      : rule === bucket.alias);
+  }
+
+  /**
+   * Checks a bucket against the allow and deny lists.
+   * @param bucket The bucket address and/or alias. The alias is looked up when only the address is given.
+   * @returns True if the bucket may be accessed.
+   */
+  public async isBucketAllowed(bucket: { address?: Address; alias?: string }): Promise<boolean> {
+    if (!this.allowBuckets.length && !this.denyBuckets.length) {
+      return true;
+    }
+
+    const alias = bucket.alias ?? (bucket.address ? await this.recallClient.findBucketAlias(bucket.address) : undefined);
+    const target = { address: bucket.address, alias };
+    if (this.matches(this.denyBuckets, target)) {
+      return false;
+    }
+    return !this.allowBuckets.length || this.matches(this.allowBuckets, target);
+  }
+
+  /**
+   * @param bucket The bucket address and/or alias.
+   * @throws PolicyError if the bucket is denied or not allow-listed.
+   */
+  public async assertBucketAllowed(bucket: { address?: Address; alias?: string }): Promise<void> {
+    if (!(await this.isBucketAllowed(bucket))) {
+      const name = bucket.alias ?? bucket.address ?? 'unknown';
+      throw new PolicyError('BUCKET_NOT_PERMITTED', `Access to bucket ${name} is not permitted`, { bucket: name });
+    }
+  }
+
+  /**
+   * Resolves a bucket alias or address and checks it against the bucket lists.
+   * @param bucket The bucket alias or address.
+   * @returns The bucket address.
+   * @throws PolicyError if the bucket is not permitted.
+   */
+  public async resolveBucket(bucket: string): Promise<Address> {
+    const address = await this.recallClient.resolveBucket(bucket);
+    await this.assertBucketAllowed({ address, alias: isAddress(bucket, { strict: false }) ? undefined : bucket });
+    return address;
+  }
+}
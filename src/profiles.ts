@@ -0,0 +1,137 @@
+import { ChainName } from '@recallnet/chains';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { config } from './env.js';
+import { SIGNER_TYPES, SignerSource } from './signers.js';
+
+// Name of the profile built from RECALL_NETWORK and RECALL_PRIVATE_KEY
+export const DEFAULT_PROFILE = 'default';
+
+const CHAIN_NAMES: ChainName[] = ['mainnet', 'testnet', 'localnet', 'devnet'];
+
+export interface RecallProfile {
+  name: string;
+  network: ChainName;
+  signer: SignerSource;
+  // Local state (spending ledger, search indexes) is kept apart per profile
+  dataDir: string;
+}
+
+// A profile entry in RECALL_PROFILES_FILE
+interface ProfileFileEntry {
+  network?: string;
+  privateKeyEnv?: string;
+  signer?: SignerSource;
+}
+
+interface ProfilesFile {
+  default?: string;
+  profiles?: Record<string, ProfileFileEntry>;
+}
+
+let profiles: Map<string, RecallProfile> | undefined;
+let defaultProfileName = DEFAULT_PROFILE;
+
+const parseNetwork = (network: string | undefined, profile: string): ChainName => {
+  const name = (network || 'testnet') as ChainName;
+  if (!CHAIN_NAMES.includes(name)) {
+    throw new Error(`Profile ${profile} has unknown network ${network}. Use one of: ${CHAIN_NAMES.join(', ')}`);
+  }
+  return name;
+};
+
+// Check the fields each signer type needs, so mistakes surface at startup rather than on first use
+const parseSigner = (entry: ProfileFileEntry, profile: string): SignerSource => {
+  if (!entry.signer) {
+    return entry.privateKeyEnv ? { type: 'env', variable: entry.privateKeyEnv } : { type: 'default' };
+  }
+
+  const signer = entry.signer;
+  const required: Record<SignerSource['type'], string[]> = {
+    default: [],
+    env: ['variable'],
+    keystore: ['path'],
+    vault: ['path', 'name'],
+    remote: ['url', 'address'],
+  };
+  if (!SIGNER_TYPES.includes(signer.type)) {
+    throw new Error(`Profile ${profile} has unknown signer type ${signer.type}. Use one of: ${SIGNER_TYPES.join(', ')}`);
+  }
+  const missing = required[signer.type].filter((field) => !(signer as Record<string, unknown>)[field]);
+  if (missing.length) {
+    throw new Error(`Profile ${profile} signer of type ${signer.type} is missing: ${missing.join(', ')}`);
+  }
+  return signer;
+};
+
+const loadProfiles = (): Map<string, RecallProfile> => {
+  if (profiles) return profiles;
+
+  const loaded = new Map<string, RecallProfile>();
+  loaded.set(DEFAULT_PROFILE, {
+    name: DEFAULT_PROFILE,
+    network: parseNetwork(config.RECALL_NETWORK, DEFAULT_PROFILE),
+    signer: { type: 'default' },
+    dataDir: config.RECALL_DATA_DIR,
+  });
+
+  let file: ProfilesFile = {};
+  if (config.RECALL_PROFILES_FILE) {
+    try {
+      file = JSON.parse(readFileSync(config.RECALL_PROFILES_FILE, 'utf8')) as ProfilesFile;
+    } catch (error: any) {
+      throw new Error(`Cannot read RECALL_PROFILES_FILE ${config.RECALL_PROFILES_FILE}: ${error.message}`);
+    }
+  }
+
+  for (const [name, entry] of Object.entries(file.profiles ?? {})) {
+    if (!/^[A-Za-z0-9_.-]+$/.test(name)) {
+      throw new Error(`Invalid profile name: ${name}. Use letters, digits, ".", "_" or "-".`);
+    }
+    loaded.set(name, {
+      name,
+      network: parseNetwork(entry.network, name),
+      signer: parseSigner(entry, name),
+      dataDir: name === DEFAULT_PROFILE ? config.RECALL_DATA_DIR : join(config.RECALL_DATA_DIR, 'profiles', name),
+    });
+  }
+
+  defaultProfileName = config.RECALL_PROFILE ?? file.default ?? DEFAULT_PROFILE;
+  if (!loaded.has(defaultProfileName)) {
+    throw new Error(`Default profile ${defaultProfileName} is not defined`);
+  }
+
+  profiles = loaded;
+  return profiles;
+};
+
+/**
+ * Lists every configured profile.
+ * @returns The profiles, default profile first.
+ */
+export function listProfiles(): RecallProfile[] {
+  const all = [...loadProfiles().values()];
+  return all.sort((a, b) => Number(b.name === defaultProfileName) - Number(a.name === defaultProfileName));
+}
+
+/**
+ * Looks up a profile by name.
+ * @param name The profile name, or undefined for the default profile.
+ * @returns The profile.
+ */
+export function getProfile(name?: string): RecallProfile {
+  const all = loadProfiles();
+  const profile = all.get(name ?? defaultProfileName);
+  if (!profile) {
+    throw new Error(`Unknown profile: ${name}. Available profiles: ${[...all.keys()].join(', ')}`);
+  }
+  return profile;
+}
+
+/**
+ * @returns The name of the profile used when a tool does not pass one.
+ */
+export function getDefaultProfileName(): string {
+  loadProfiles();
+  return defaultProfileName;
+}
@@ -0,0 +1,254 @@
+import { GetPromptResult, Prompt, PromptMessage } from '@modelcontextprotocol/sdk/types.js';
+import { ObjectEncryption } from './encryption.js';
+import { AccessPolicy } from './permissions.js';
+import { RecallClientManager } from './recall-client.js';
+import { buildRecallUri, readRecallResource, visibleObjects } from './resources.js';
+
+// Upper bounds on how much live data a single prompt pulls into the conversation
+const MAX_PROMPT_OBJECTS = 20;
+const MAX_PROMPT_OBJECT_CHARS = 16_000;
+
+type PromptArgs = Record<string, string>;
+
+interface RecallPrompt {
+  definition: Prompt;
+  // Tools the prompt tells the model to call; it is only offered when the tool profile grants them
+  tools?: string[];
+  build: (
+    recallClient: RecallClientManager,
+    policy: AccessPolicy,
+    objectEncryption: ObjectEncryption,
+    args: PromptArgs,
+  ) => Promise<GetPromptResult>;
+}
+
+const requireArg = (args: PromptArgs, name: string, prompt: string): string => {
+  const value = args[name]?.trim();
+  if (!value) {
+    throw new Error(`Missing required argument "${name}" for prompt ${prompt}`);
+  }
+  return value;
+};
+
+const userText = (text: string): PromptMessage => ({
+  role: 'user',
+  content: { type: 'text', text },
+});
+
+/**
+ * Embeds the objects of a bucket (optionally under a key prefix) as resource messages.
+ * Oversized text objects are truncated and binary objects are referenced by URI only.
+ * Encrypted objects are decrypted, and the prefix matches plaintext keys.
+ * @param recallClient The Recall client manager.
+ * @param policy The access policy the bucket is checked against.
+ * @param objectEncryption The object encryption used to decrypt key names and payloads.
+ * @param bucket The bucket alias or address as given by the caller.
+ * @param prefix The optional key prefix to filter on.
+ * @returns The embedded messages and the total number of matching keys.
+ */
+async function embedBucketObjects(
+  recallClient: RecallClientManager,
+  policy: AccessPolicy,
+  objectEncryption: ObjectEncryption,
+  bucket: string,
+  prefix?: string,
+): Promise<{ messages: PromptMessage[]; total: number }> {
+  const address = await policy.resolveBucket(bucket);
+  // Encrypted key names cannot be matched by prefix until they are decrypted
+  const listed = await recallClient.listAllObjects(address, objectEncryption.enabled ? undefined : prefix);
+  const objects = (await visibleObjects(objectEncryption, address, listed)).filter(({ key }) => key.startsWith(prefix ?? ''));
+
+  const messages: PromptMessage[] = [];
+  for (const { key } of objects.slice(0, MAX_PROMPT_OBJECTS)) {
+    const uri = buildRecallUri(bucket, key);
+    const { contents } = await readRecallResource(recallClient, policy, objectEncryption, uri);
+    const content = contents[0];
+
+    if (typeof content?.text === 'string') {
+      const text = content.text.length > MAX_PROMPT_OBJECT_CHARS
+        ? `${content.text.slice(0, MAX_PROMPT_OBJECT_CHARS)}\n[truncated]`
+        : content.text;
+      messages.push({
+        role: 'user',
+        content: { type: 'resource', resource: { uri, mimeType: content.mimeType, text } },
+      });
+    } else {
+      messages.push(userText(`Binary object ${key} (${content?.mimeType ?? 'unknown type'}) is available at ${uri}.`));
+    }
+  }
+
+  return { messages, total: objects.length };
+}
+
+const describeScope = (bucket: string, prefix?: string): string =>
+  prefix ? `bucket "${bucket}" under the key prefix "${prefix}"` : `bucket "${bucket}"`;
+
+const RECALL_PROMPT_LIBRARY: RecallPrompt[] = [
+  {
+    definition: {
+      name: 'summarize_bucket',
+      description: 'Summarize the contents of a Recall bucket',
+      arguments: [
+        { name: 'bucket', description: 'Bucket alias or address', required: true },
+        { name: 'prefix', description: 'Only include keys starting with this prefix', required: false },
+      ],
+    },
+    build: async (recallClient, policy, objectEncryption, args) => {
+      const bucket = requireArg(args, 'bucket', 'summarize_bucket');
+      const prefix = args.prefix || undefined;
+      const { messages, total } = await embedBucketObjects(recallClient, policy, objectEncryption, bucket, prefix);
+      const shown = Math.min(total, MAX_PROMPT_OBJECTS);
+
+      return {
+        description: `Summary of ${describeScope(bucket, prefix)}`,
+        messages: [
+          userText(
+            `The ${describeScope(bucket, prefix)} contains ${total} object(s). ` +
+            `The first ${shown} are attached below.`,
+          ),
+          ...messages,
+          userText(
+            'Summarize these objects: what kinds of data they hold, the main topics, ' +
+            'and anything that looks stale, duplicated or inconsistent.',
+          ),
+        ],
+      };
+    },
+  },
+  {
+    definition: {
+      name: 'store_memory',
+      description: "Store the current conversation as a memory in the agent's memory bucket",
+      arguments: [
+        { name: 'topic', description: 'Short description of what the memory is about', required: false },
+        { name: 'agent', description: 'Agent whose memory bucket to use (defaults to RECALL_AGENT_ID)', required: false },
+      ],
+    },
+    tools: ['remember', 'recall_memories'],
+    build: async (_recallClient, policy, _objectEncryption, args) => {
+      for (const tool of ['remember', 'recall_memories']) {
+        policy.assertToolAllowed(tool);
+      }
+      const topic = args.topic ? ` about "${args.topic}"` : '';
+      const agent = args.agent?.trim() ? ` with agent "${args.agent.trim()}"` : '';
+
+      return {
+        description: `Store the conversation as a memory${topic}`,
+        messages: [
+          userText(
+            `First call the recall_memories tool${agent} to see what is already remembered${topic}, ` +
+            'so the new memory does not repeat it.\n\n' +
+            `Then write a concise memory of this conversation${topic}: the goal, key decisions, facts learned ` +
+            `and open questions. Store it with the remember tool${agent}: the memory as content, a few short ` +
+            'topic tags, source "conversation" and an importance from 0 to 1.',
+          ),
+        ],
+      };
+    },
+  },
+  {
+    definition: {
+      name: 'audit_credit_usage',
+      description: 'Audit credit balance and storage usage of the Recall account',
+      arguments: [],
+    },
+    build: async (recallClient, policy) => {
+      const [account, credit, allBuckets] = await Promise.all([
+        recallClient.getAccountInfo(),
+        recallClient.getCreditInfo(),
+        recallClient.listBuckets(),
+      ]);
+      const buckets = [];
+      for (const bucket of allBuckets) {
+        if (await policy.isBucketAllowed({ address: bucket.addr, alias: bucket.metadata?.alias as string | undefined })) {
+          buckets.push(bucket);
+        }
+      }
+      const bucketUsage = await Promise.all(buckets.map(async (bucket) => ({
+        address: bucket.addr,
+        alias: bucket.metadata?.alias || null,
+        objects: (await recallClient.listAllObjects(bucket.addr)).length,
+      })));
+
+      return {
+        description: 'Audit of Recall credit usage',
+        messages: [
+          userText(
+            'Here is the current state of my Recall account:\n\n' +
+            JSON.stringify({
+              address: account.address,
+              balance: account.balance.toString(),
+              creditFree: credit.creditFree.toString(),
+              creditCommitted: credit.creditCommitted.toString(),
+              capacityUsed: credit.capacityUsed.toString(),
+              buckets: bucketUsage,
+            }, null, 2) +
+            '\n\nAudit my credit usage: explain how much credit is free versus committed, which buckets ' +
+            'hold the most objects, and whether I should buy more credit or clean up data.',
+          ),
+        ],
+      };
+    },
+  },
+  {
+    definition: {
+      name: 'restore_context',
+      description: 'Restore working context from the objects stored in a Recall bucket',
+      arguments: [
+        { name: 'bucket', description: 'Bucket alias or address to restore from', required: true },
+        { name: 'prefix', description: 'Only restore keys starting with this prefix', required: false },
+      ],
+    },
+    build: async (recallClient, policy, objectEncryption, args) => {
+      const bucket = requireArg(args, 'bucket', 'restore_context');
+      const prefix = args.prefix || undefined;
+      const { messages, total } = await embedBucketObjects(recallClient, policy, objectEncryption, bucket, prefix);
+
+      return {
+        description: `Context restored from ${describeScope(bucket, prefix)}`,
+        messages: [
+          userText(
+            `The following ${messages.length} of ${total} object(s) were restored from the ${describeScope(bucket, prefix)}. ` +
+            'Treat them as context from earlier sessions.',
+          ),
+          ...messages,
+          userText('Briefly confirm what context you now have and continue from where we left off.'),
+        ],
+      };
+    },
+  },
+];
+
+/**
+ * Lists the prompts the tool profile can carry out.
+ * @param policy The access policy granting the tools prompts rely on.
+ * @returns The prompt definitions.
+ */
+export function listRecallPrompts(policy: AccessPolicy): Prompt[] {
+  return RECALL_PROMPT_LIBRARY
+    .filter((prompt) => (prompt.tools ?? []).every((tool) => policy.isToolAllowed(tool)))
+    .map((prompt) => prompt.definition);
+}
+
+/**
+ * Builds the messages for a prompt from the library, pulling live data from Recall.
+ * @param recallClient The Recall client manager.
+ * @param policy The access policy bucket arguments are checked against.
+ * @param objectEncryption The object encryption used to decrypt embedded objects.
+ * @param name The prompt name.
+ * @param args The prompt arguments.
+ * @returns The prompt result.
+ */
+export async function getRecallPrompt(
+  recallClient: RecallClientManager,
+  policy: AccessPolicy,
+  objectEncryption: ObjectEncryption,
+  name: string,
+  args: PromptArgs = {},
+): Promise<GetPromptResult> {
+  const prompt = RECALL_PROMPT_LIBRARY.find((p) => p.definition.name === name);
+  if (!prompt) {
+    throw new Error(`Unknown prompt: ${name}`);
+  }
+  return prompt.build(recallClient, policy, objectEncryption, args);
+}
@@ -1,52 +1,511 @@
-import { ChainName, getChain, testnet } from '@recallnet/chains';
+import { getChain, getExplorerUrl, getParentChain } from '@recallnet/chains';
 import { AccountInfo } from '@recallnet/sdk/account';
-import { ListResult } from '@recallnet/sdk/bucket';
-import { RecallClient, walletClientFromPrivateKey } from '@recallnet/sdk/client';
-import { CreditAccount } from '@recallnet/sdk/credit';
-import { Address, Hex, parseEther, TransactionReceipt } from 'viem';
-import { validateEnv, logger, getPrivateKey, config } from './env.js';
+import { ListResult, ObjectValue, QueryResult } from '@recallnet/sdk/bucket';
+import { RecallClient } from '@recallnet/sdk/client';
+import { CreditAccount, CreditStats } from '@recallnet/sdk/credit';
+import {
+  ActorNotFound,
+  BucketNotFound,
+  InsufficientFunds,
+  InvalidValue,
+  isActorNotFoundError,
+  ObjectNotAvailable,
+  ObjectNotFound,
+} from '@recallnet/sdk/errors';
+import {
+  Address,
+  BaseError,
+  ContractFunctionRevertedError,
+  createWalletClient,
+  formatEther,
+  http,
+  HttpRequestError,
+  InsufficientFundsError as ViemInsufficientFundsError,
+  InvalidAddressError,
+  LimitExceededRpcError,
+  NonceTooHighError,
+  NonceTooLowError,
+  TimeoutError as ViemTimeoutError,
+  TransactionNotFoundError,
+  Hash,
+  TransactionReceipt,
+} from 'viem';
+import { validateEnv, logger, config } from './env.js';
+import { getProfile, RecallProfile } from './profiles.js';
+import { createSignerAccount } from './signers.js';
+import { parseAddress } from './validation.js';
+import { QueuedWrite, WriteQueue } from './write-queue.js';
 
 type Result<T = unknown> = {
   result: T;
   meta?: {
     tx?: TransactionReceipt;
+    // Set when a retried write turned out to have been applied by an earlier attempt
+    recovered?: boolean;
+    // Hash of a transaction that was sent but not waited for
+    submitted?: Hash;
   };
 };
 
+// Keys that changed in a bucket between two polls
+export type BucketChange = {
+  bucket: Address;
+  added: string[];
+  removed: string[];
+  updated: string[];
+};
+
+export type BucketChangeListener = (change: BucketChange) => void;
+
+type QueryObject = QueryResult['objects'][number];
+
+// How long the alias index may be used before it is rebuilt from the chain
+const ALIAS_INDEX_TTL_MS = 5 * 60 * 1000;
+
+// What write tools report about a mined transaction. Amounts are decimal strings: wei, except fee in whole tokens.
+export type ReceiptSummary = {
+  transactionHash: Hash;
+  status: 'success' | 'reverted';
+  blockNumber: string;
+  blockHash: Hash;
+  from: Address;
+  to: Address | null;
+  gasUsed: string;
+  effectiveGasPrice: string;
+  fee: string;
+};
+
+// A transaction looked up by hash; receipt is null while it is pending
+export type TransactionInfo = {
+  hash: Hash;
+  status: 'pending' | 'success' | 'reverted';
+  from: Address;
+  to: Address | null;
+  nonce: number;
+  value: string;
+  blockNumber: string | null;
+  confirmations: number;
+  receipt: ReceiptSummary | null;
+};
+
+// The chain a profile is connected to and how its RPC endpoint is answering
+export type NetworkStatus = {
+  network: string;
+  chainId: number;
+  chainName: string;
+  // Set when the RPC endpoint reports a different chain id than the profile is configured for
+  chainIdMismatch: number | null;
+  rpcUrl: string;
+  explorerUrl: string | null;
+  rpcLatencyMs: number;
+  latestBlock: { number: string; hash: Hash; timestamp: string; ageSeconds: number };
+  gasPrice: string;
+  subnet: {
+    id: string;
+    parentChain: { id: number; name: string } | null;
+    // Subnet-wide storage and credit totals as decimal strings; null if the node could not provide them
+    stats: Record<string, string> | null;
+  };
+};
+
+/**
+ * Summarizes a transaction receipt with JSON-safe values.
+ * @param receipt The receipt.
+ * @returns The summary.
+ */
+export function summarizeReceipt(receipt: TransactionReceipt): ReceiptSummary {
+  return {
+    transactionHash: receipt.transactionHash,
+    status: receipt.status,
+    blockNumber: receipt.blockNumber.toString(),
+    blockHash: receipt.blockHash,
+    from: receipt.from,
+    to: receipt.to,
+    gasUsed: receipt.gasUsed.toString(),
+    effectiveGasPrice: receipt.effectiveGasPrice.toString(),
+    fee: formatEther(receipt.gasUsed * receipt.effectiveGasPrice),
+  };
+}
+
+// An object entry as returned by the listing methods
+export type BucketObject = {
+  key: string;
+  size: bigint;
+  expiry: bigint;
+  blobHash: string;
+  metadata?: Record<string, unknown>;
+};
+
+export type ListObjectsOptions = {
+  prefix?: string;
+  delimiter?: string;
+  startKey?: string;
+  limit?: number;
+};
+
+// One page of a bucket listing. `nextKey` is undefined on the last page.
+export type ListObjectsPage = {
+  objects: BucketObject[];
+  commonPrefixes: string[];
+  nextKey?: string;
+};
+
+const toBucketObject = (obj: QueryObject): BucketObject => ({
+  key: obj.key,
+  size: obj.state.size,
+  expiry: obj.state.expiry,
+  blobHash: obj.state.blobHash,
+  metadata: Object.keys(obj.state.metadata ?? {}).length ? obj.state.metadata : undefined,
+});
+
+export type RecallErrorOptions = {
+  retryable?: boolean;
+  hint?: string;
+  details?: Record<string, unknown>;
+  cause?: unknown;
+};
+
+/**
+ * Base class of the errors tools report. `code` is stable and meant for agents to branch on;
+ * `retryable` says whether the same call may succeed later and `hint` suggests what to do next.
+ */
+export class RecallError extends Error {
+  public readonly retryable: boolean;
+  public readonly hint?: string;
+  public readonly details: Record<string, unknown>;
+
+  constructor(
+    public readonly code: string,
+    message: string,
+    options: RecallErrorOptions = {},
+  ) {
+    super(message, { cause: options.cause });
+    this.name = 'RecallError';
+    this.retryable = options.retryable ?? false;
+    this.hint = options.hint ?? ERROR_HINTS[code];
+    this.details = options.details ?? {};
+  }
+
+  /**
+   * @returns The error as a plain object for tool results, with details spread alongside the code.
+   */
+  public toJSON(): { code: string; message: string; retryable: boolean; hint?: string; [detail: string]: unknown } {
+    return {
+      code: this.code,
+      message: this.message,
+      retryable: this.retryable,
+      ...(this.hint ? { hint: this.hint } : {}),
+      ...this.details,
+    };
+  }
+}
+
+// A bucket, object, account or transaction that does not exist (yet)
+export class NotFoundError extends RecallError {
+  declare readonly code:
+    | 'BUCKET_NOT_FOUND'
+    | 'OBJECT_NOT_FOUND'
+    | 'OBJECT_NOT_AVAILABLE'
+    | 'ACCOUNT_NOT_FOUND'
+    | 'TRANSACTION_NOT_FOUND';
+
+  constructor(code: NotFoundError['code'], message: string, options?: RecallErrorOptions) {
+    super(code, message, options);
+    this.name = 'NotFoundError';
+  }
+}
+
+// A request the caller must change before retrying
+export class InvalidArgumentError extends RecallError {
+  declare readonly code: 'INVALID_ARGUMENT' | 'INVALID_ADDRESS' | 'AMBIGUOUS_BUCKET';
+
+  constructor(message: string, options?: RecallErrorOptions & { code?: InvalidArgumentError['code'] }) {
+    super(options?.code ?? 'INVALID_ARGUMENT', message, options);
+    this.name = 'InvalidArgumentError';
+  }
+}
+
+// The wallet cannot pay for gas or the account has run out of storage credit
+export class InsufficientFundsError extends RecallError {
+  declare readonly code: 'INSUFFICIENT_FUNDS' | 'INSUFFICIENT_CREDIT';
+
+  constructor(code: InsufficientFundsError['code'], message: string, options?: RecallErrorOptions) {
+    super(code, message, options);
+    this.name = 'InsufficientFundsError';
+  }
+}
+
+// The network or RPC endpoint failed to answer; the call is safe to repeat
+export class NetworkError extends RecallError {
+  declare readonly code: 'TIMEOUT' | 'NETWORK_ERROR' | 'RATE_LIMITED';
+
+  constructor(code: NetworkError['code'], message: string, options?: RecallErrorOptions) {
+    super(code, message, { retryable: true, ...options });
+    this.name = 'NetworkError';
+  }
+}
+
+// A transaction was rejected by the chain, or by the node because its nonce was already used or skipped
+export class TransactionError extends RecallError {
+  declare readonly code: 'TRANSACTION_REVERTED' | 'NONCE_CONFLICT';
+
+  constructor(message: string, options?: RecallErrorOptions & { code?: TransactionError['code'] }) {
+    const code = options?.code ?? 'TRANSACTION_REVERTED';
+    super(code, message, { retryable: code === 'NONCE_CONFLICT', ...options });
+    this.name = 'TransactionError';
+  }
+}
+
+const ERROR_HINTS: Record<string, string> = {
+  BUCKET_NOT_FOUND: 'Use list_buckets to see your buckets, or ensure_bucket to create one.',
+  OBJECT_NOT_FOUND: 'Use list_bucket_objects to see the keys in the bucket.',
+  OBJECT_NOT_AVAILABLE: 'The object is stored but its data has not been resolved by the network yet. Retry shortly.',
+  ACCOUNT_NOT_FOUND: 'The wallet has no account on this network yet. Fund it with tokens first.',
+  TRANSACTION_NOT_FOUND: 'The node does not know this transaction. Check the hash, and that the profile is on the network it was sent to with get_network_status.',
+  INSUFFICIENT_FUNDS: 'The wallet balance cannot cover this transaction. Fund the wallet and check it with get_balance.',
+  INSUFFICIENT_CREDIT: 'The account is out of storage credit. Use buy_credit, then retry.',
+  INVALID_ARGUMENT: 'Check the tool arguments against its input schema.',
+  INVALID_ADDRESS: 'Addresses are 0x followed by 40 hex characters.',
+  AMBIGUOUS_BUCKET: 'Use the bucket address instead of its alias.',
+  TIMEOUT: 'The network did not answer in time. Retry the call.',
+  NETWORK_ERROR: 'The RPC endpoint could not be reached. Retry the call, or check the network with get_network_status.',
+  RATE_LIMITED: 'The RPC endpoint is rate limiting requests. Wait before retrying.',
+  TRANSACTION_REVERTED: 'The chain rejected the transaction. Check the arguments and account state before retrying.',
+  NONCE_CONFLICT: 'Another transaction from this wallet used the same nonce. Retry the call.',
+  BATCH_FAILED: 'Part of an atomic batch failed, so none of it was applied. The details say why each item failed.',
+};
+
+const errorMessage = (error: unknown): string =>
+  error instanceof BaseError ? error.shortMessage : error instanceof Error ? error.message : String(error);
+
+/**
+ * Maps an SDK, viem or network failure to a RecallError with a stable code.
+ * RecallErrors pass through unchanged; anything unrecognized gets the code UNKNOWN.
+ * @param error The error to classify.
+ * @returns The classified error, with the original as its cause.
+ */
+export function toRecallError(error: unknown): RecallError {
+  if (error instanceof RecallError) {
+    return error;
+  }
+
+  const message = errorMessage(error);
+  const options = { cause: error };
+
+  if (error instanceof BucketNotFound) return new NotFoundError('BUCKET_NOT_FOUND', message, options);
+  if (error instanceof ObjectNotFound) return new NotFoundError('OBJECT_NOT_FOUND', message, options);
+  if (error instanceof ObjectNotAvailable) {
+    return new NotFoundError('OBJECT_NOT_AVAILABLE', message, { ...options, retryable: true });
+  }
+  if (error instanceof ActorNotFound || (error instanceof Error && isActorNotFoundError(error).isActorNotFound)) {
+    return new NotFoundError('ACCOUNT_NOT_FOUND', message, options);
+  }
+  if (error instanceof InsufficientFunds) return new InsufficientFundsError('INSUFFICIENT_FUNDS', message, options);
+  if (error instanceof InvalidValue) return new InvalidArgumentError(message, options);
+
+  if (error instanceof BaseError) {
+    const cause = error.walk((e) =>
+      e instanceof ViemInsufficientFundsError ||
+      e instanceof InvalidAddressError ||
+      e instanceof ViemTimeoutError ||
+      e instanceof LimitExceededRpcError ||
+      e instanceof NonceTooLowError ||
+      e instanceof NonceTooHighError ||
+      e instanceof HttpRequestError ||
+      e instanceof ContractFunctionRevertedError ||
+      e instanceof TransactionNotFoundError);
+    if (cause instanceof ViemInsufficientFundsError) return new InsufficientFundsError('INSUFFICIENT_FUNDS', message, options);
+    if (cause instanceof InvalidAddressError) return new InvalidArgumentError(message, { ...options, code: 'INVALID_ADDRESS' });
+    if (cause instanceof ViemTimeoutError) return new NetworkError('TIMEOUT', message, options);
+    if (cause instanceof LimitExceededRpcError || (cause instanceof HttpRequestError && cause.status === 429)) {
+      return new NetworkError('RATE_LIMITED', message, options);
+    }
+    if (cause instanceof NonceTooLowError || cause instanceof NonceTooHighError) {
+      return new TransactionError(message, { ...options, code: 'NONCE_CONFLICT' });
+    }
+    if (cause instanceof HttpRequestError) {
+      // Client errors other than rate limiting will fail the same way again
+      const retryable = cause.status === undefined || cause.status >= 500;
+      return new NetworkError('NETWORK_ERROR', message, { ...options, retryable, details: { status: cause.status } });
+    }
+    if (cause instanceof ContractFunctionRevertedError) {
+      return new TransactionError(message, { ...options, details: cause.reason ? { reason: cause.reason } : undefined });
+    }
+    if (cause instanceof TransactionNotFoundError) return new NotFoundError('TRANSACTION_NOT_FOUND', message, options);
+  }
+
+  // The SDK wraps some failures in plain errors, so fall back to the message
+  const text = error instanceof Error ? `${error.message} ${String(error.cause ?? '')}` : message;
+  if (/insufficient (storage )?credit|not enough credit/i.test(text)) {
+    return new InsufficientFundsError('INSUFFICIENT_CREDIT', message, options);
+  }
+  if (/insufficient funds/i.test(text)) return new InsufficientFundsError('INSUFFICIENT_FUNDS', message, options);
+  if (/nonce too (low|high)|replacement transaction underpriced|already known/i.test(text)) {
+    return new TransactionError(message, { ...options, code: 'NONCE_CONFLICT' });
+  }
+  if (/timed out|timeout/i.test(text)) return new NetworkError('TIMEOUT', message, options);
+  if (/ECONNREFUSED|ECONNRESET|ENOTFOUND|EAI_AGAIN|fetch failed|socket hang up/i.test(text)) {
+    return new NetworkError('NETWORK_ERROR', message, options);
+  }
+  return new RecallError('UNKNOWN', message, options);
+}
+
+type ExecuteOptions<T> = {
+  // Writes send a transaction, so a failed attempt may still have been applied
+  write?: boolean;
+  // The write can be repeated without being applied twice, e.g. a non-overwriting add
+  idempotent?: boolean;
+  // Checks whether an earlier attempt of a write was applied, returning its result if so
+  recover?: () => Promise<T | undefined>;
+  // Called after every failed attempt, once it has settled or been given up on
+  onAttemptFailed?: () => void;
+};
+
+// Errors after which a write may or may not have reached the chain
+const isAmbiguous = (error: RecallError): boolean => error.code === 'TIMEOUT' || error.code === 'NETWORK_ERROR';
+
+const submittedResult = (hash: Hash): Result => ({ result: undefined, meta: { submitted: hash } });
+
+const sleep = (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Waits up to timeoutMs for a call to settle, returning its outcome, or undefined if it is still running
+const waitToSettle = async <T>(
+  promise: Promise<T>,
+  timeoutMs: number,
+): Promise<{ ok: true; value: T } | { ok: false; error: unknown } | undefined> => {
+  let timeoutId: NodeJS.Timeout | undefined;
+  try {
+    return await Promise.race([
+      promise.then((value) => ({ ok: true as const, value }), (error: unknown) => ({ ok: false as const, error })),
+      new Promise<undefined>((resolve) => {
+        timeoutId = setTimeout(() => resolve(undefined), timeoutMs);
+      }),
+    ]);
+  } finally {
+    clearTimeout(timeoutId);
+  }
+};
+
+// The outcome of one item of a batch call
+export type BatchItemResult<T> =
+  | { key: string; ok: true; value: T }
+  | { key: string; ok: false; error: RecallError };
+
+export type BatchAddItem = {
+  key: string;
+  data: string | Uint8Array;
+  contentType?: string;
+  metadata?: Record<string, string>;
+  ttl?: number;
+};
+
+// Metadata key under which every write records when the object was stored, since the chain keeps only its expiry
+export const CREATED_AT_METADATA = 'recall-created';
+
+// Runs fn over items with at most `limit` calls in flight, keeping results in input order
+export const mapConcurrent = async <I, O>(items: I[], limit: number, fn: (item: I) => Promise<O>): Promise<O[]> => {
+  const results: O[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(Math.max(1, limit), items.length) }, worker));
+  return results;
+};
+
+const settle = async <T>(key: string, run: () => Promise<T>): Promise<BatchItemResult<T>> => {
+  try {
+    return { key, ok: true, value: await run() };
+  } catch (error) {
+    return { key, ok: false, error: toRecallError(error) };
+  }
+};
+
+type WriteOptions<T> = Omit<ExecuteOptions<T>, 'write'> & {
+  // Resolve once the transaction is sent, with this result, instead of waiting for the receipt
+  onSubmitted?: (hash: Hash) => T;
+};
+
+type BucketWatcher = {
+  timer: NodeJS.Timeout;
+  listeners: Set<BucketChangeListener>;
+  snapshot?: Map<string, string>;
+  polling: boolean;
+};
+
 export class RecallClientManager {
   private client: RecallClient;
-  private static instance: RecallClientManager;
+  private walletAddress: Address;
+  private static instances = new Map<string, RecallClientManager>();
+  private watchers = new Map<Address, BucketWatcher>();
+  private aliasIndex?: { byAlias: Map<string, Address[]>; refreshedAt: number };
+  private writeQueue = new WriteQueue();
 
-  private constructor() {
+  private constructor(public readonly profile: RecallProfile) {
     // Make sure environment variables are loaded and valid
     validateEnv();
     
-    const privateKeyRaw = getPrivateKey();
-    const network = config.RECALL_NETWORK || 'testnet';
+    // The signer decrypts or fetches its key material once; only the account is kept
+    const account = createSignerAccount(profile.signer, profile.name);
+    account.nonceManager = this.writeQueue.nonceManager;
+    this.walletAddress = account.address;
+    const wallet = createWalletClient({
+      account,
+      chain: getChain(profile.network),
+      transport: http(),
+    });
+    this.client = new RecallClient({ walletClient: wallet });
 
-    if (!privateKeyRaw) {
-      throw new Error('RECALL_PRIVATE_KEY is required');
+    // The SDK waits for the receipt of every transaction it sends, which tells the queue it was sent
+    const publicClient = this.client.publicClient;
+    const waitForReceipt = publicClient.waitForTransactionReceipt;
+    publicClient.waitForTransactionReceipt = (args) => {
+      this.writeQueue.markSubmitted(args.hash);
+      return waitForReceipt(args);
+    };
+  }
+
+  /**
+   * Returns the manager for a profile, creating it on first use.
+   * @param profile The profile name, or undefined for the default profile.
+   * @returns The manager for that profile.
+   */
+  public static getInstance(profile?: string): RecallClientManager {
+    const resolved = getProfile(profile);
+    let instance = RecallClientManager.instances.get(resolved.name);
+    if (!instance) {
+      instance = new RecallClientManager(resolved);
+      RecallClientManager.instances.set(resolved.name, instance);
     }
+    return instance;
+  }
 
-    // Format the private key: If it doesn't start with "0x", prepend it
-    const privateKey = privateKeyRaw.startsWith('0x') 
-      ? privateKeyRaw as Hex 
-      : `0x${privateKeyRaw}` as Hex;
+  /**
+   * Returns the manager for a profile only if it was already created, so no signer is unlocked.
+   * @param profile The profile name.
+   * @returns The existing manager, or undefined.
+   */
+  public static findInstance(profile: string): RecallClientManager | undefined {
+    return RecallClientManager.instances.get(profile);
+  }
 
-    const chain = network ? getChain(network as ChainName) : testnet;
-    
-    // Remove the private key from the environment after use to minimize risk of exposure
-    const walletKey = privateKey;
-    
-    const wallet = walletClientFromPrivateKey(walletKey, chain);
-    this.client = new RecallClient({ walletClient: wallet });
+  /**
+   * Gets the wallet address without a network round trip.
+   * @returns The address of the profile's wallet.
+   */
+  public getWalletAddress(): Address {
+    return this.walletAddress;
   }
 
-  public static getInstance(): RecallClientManager {
-    if (!RecallClientManager.instance) {
-      RecallClientManager.instance = new RecallClientManager();
-    }
-    return RecallClientManager.instance;
+  /**
+   * @returns The chain the profile's client is connected to.
+   */
+  public getChainInfo(): { id: number; name: string } {
+    const { id, name } = this.client.publicClient.chain;
+    return { id, name };
   }
 
   /**
@@ -65,6 +524,95 @@ export class RecallClientManager {
     throw new Error('Security violation: This method is designed to prevent accidental exposure of private keys.');
   }
 
+  /**
+   * Runs a Recall call with a timeout, retrying retryable failures with exponential backoff and full jitter.
+   * Writes are only retried when a failed attempt cannot have been applied, or when repeating it is safe;
+   * after an ambiguous failure, `recover` is asked whether the earlier attempt went through.
+   * A write attempt that times out is given one more timeout to settle before anything else happens,
+   * so a retry never runs alongside it; if it settles, its outcome counts, and if not, it is not retried.
+   * @param operation The operation name, used for logging and to look up RECALL_OPERATION_TIMEOUTS.
+   * @param call Starts one attempt.
+   * @param options Whether the call is a write, whether it is idempotent and how to recover it.
+   * @returns The result of the first successful attempt, or of the recovered write.
+   * @throws RecallError from the last attempt.
+   */
+  private async execute<T>(operation: string, call: () => Promise<T>, options: ExecuteOptions<T> = {}): Promise<T> {
+    const timeoutMs = config.RECALL_OPERATION_TIMEOUTS[operation]
+      ?? (options.write ? config.RECALL_WRITE_TIMEOUT_MS : config.RECALL_READ_TIMEOUT_MS);
+    let ambiguous = false;
+
+    for (let attempt = 1; ; attempt++) {
+      // A call that throws synchronously fails its attempt like one that rejects
+      const pending = new Promise<T>((resolve) => resolve(call()));
+      try {
+        return await this.withTimeout(pending, timeoutMs, operation);
+      } catch (cause) {
+        let error = toRecallError(cause);
+        // A timed-out write may still be sending its transaction, and a retry would race it for the nonce
+        let inFlight = false;
+        if (options.write && error.code === 'TIMEOUT') {
+          logger.warn(`${operation} timed out, waiting up to ${timeoutMs}ms for the attempt to finish`);
+          const late = await waitToSettle(pending, timeoutMs);
+          if (late?.ok) return late.value;
+          if (late) {
+            error = toRecallError(late.error);
+          } else {
+            inFlight = true;
+          }
+        }
+        options.onAttemptFailed?.();
+        const unsafe = !!options.write && isAmbiguous(error) && !options.idempotent;
+        ambiguous ||= !!options.write && isAmbiguous(error);
+
+        const retry = error.retryable && attempt < config.RECALL_MAX_ATTEMPTS && !inFlight && !(unsafe && !options.recover);
+        if (retry) {
+          const delay = Math.random() * Math.min(config.RECALL_RETRY_MAX_DELAY_MS, config.RECALL_RETRY_BASE_DELAY_MS * 2 ** (attempt - 1));
+          logger.warn(unsafe
+            ? `${operation} failed with ${error.code}, checking in ${Math.round(delay)}ms whether it was applied`
+            : `${operation} failed with ${error.code} (attempt ${attempt}/${config.RECALL_MAX_ATTEMPTS}), retrying in ${Math.round(delay)}ms`);
+          await sleep(delay);
+        }
+
+        // Once an attempt may have landed, any later failure can be because it did, e.g. the object now exists
+        if (ambiguous && options.recover) {
+          const recovered = await options.recover().catch(() => undefined);
+          if (recovered !== undefined) return recovered;
+        }
+        if (!retry || unsafe) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  /**
+   * Sends a write through the wallet's write queue, so it gets the next local nonce.
+   * A failed or timed-out attempt resets the nonce before execute retries it, which recovers from nonce conflicts.
+   * @param operation The operation name.
+   * @param description What the write does, for getPendingTransactions.
+   * @param call Starts one attempt.
+   * @param options Idempotency and recovery as for execute, and whether to wait for the receipt.
+   * @returns The result of the write.
+   */
+  private write<T>(operation: string, description: string, call: () => Promise<T>, options: WriteOptions<T> = {}): Promise<T> {
+    const { onSubmitted, ...executeOptions } = options;
+    const onAttemptFailed = () => this.writeQueue.resetNonce();
+    return this.writeQueue.enqueue(
+      operation,
+      description,
+      () => this.execute(operation, call, { ...executeOptions, write: true, onAttemptFailed }),
+      { onSubmitted },
+    );
+  }
+
+  /**
+   * Lists the wallet's queued and in-flight writes, and the most recently finished ones.
+   * @returns The writes and the next nonce the queue will use, if it knows it.
+   */
+  public getPendingTransactions(): { pending: QueuedWrite[]; recent: QueuedWrite[]; nextNonce: number | null } {
+    return this.writeQueue.list();
+  }
+
   /**
    * Utility function to handle timeouts for async operations.
    * @param promise The promise to execute.
@@ -77,7 +625,7 @@ export class RecallClientManager {
 
     const timeoutPromise = new Promise<T>((_, reject) => {
       timeoutId = setTimeout(() => {
-        reject(new Error(`${operationName} operation timed out after ${timeoutMs}ms`));
+        reject(new NetworkError('TIMEOUT', `${operationName} operation timed out after ${timeoutMs}ms`));
       }, timeoutMs);
     });
 
@@ -97,11 +645,11 @@ export class RecallClientManager {
    */
   public async getAccountInfo(): Promise<AccountInfo> {
     try {
-      const info = await this.client.accountManager().info();
+      const info = await this.execute('getAccountInfo', () => this.client.accountManager().info());
       return info.result;
     } catch (error: any) {
       logger.error(`Error getting account info: ${error.message}`);
-      throw error;
+      throw toRecallError(error);
     }
   }
 
@@ -111,11 +659,12 @@ export class RecallClientManager {
    */
   public async listBuckets(): Promise<ListResult> {
     try {
-      const info = await this.client.bucketManager().list();
+      const info = await this.execute('listBuckets', () => this.client.bucketManager().list());
+      this.indexAliases(info.result);
       return info.result;
     } catch (error: any) {
       logger.error(`Error listing buckets: ${error.message}`);
-      throw error;
+      throw toRecallError(error);
     }
   }
 
@@ -125,26 +674,137 @@ export class RecallClientManager {
    */
   public async getCreditInfo(): Promise<CreditAccount> {
     try {
-      const info = await this.client.creditManager().getAccount();
+      const info = await this.execute('getCreditInfo', () => this.client.creditManager().getAccount());
       return info.result;
     } catch (error: any) {
       logger.error(`Error getting credit info: ${error.message}`);
-      throw error;
+      throw toRecallError(error);
+    }
+  }
+
+  /**
+   * Gets the network-wide credit statistics, including the rate at which tokens buy credit.
+   * @returns The credit statistics.
+   */
+  public async getCreditStats(): Promise<CreditStats> {
+    try {
+      const info = await this.execute('getCreditStats', () => this.client.creditManager().getCreditStats());
+      return info.result;
+    } catch (error: any) {
+      logger.error(`Error getting credit stats: ${error.message}`);
+      throw toRecallError(error);
+    }
+  }
+
+  /**
+   * Looks up a transaction by hash, with its receipt once it is mined.
+   * @param hash The transaction hash.
+   * @returns The transaction, its status and the number of blocks confirming it.
+   */
+  public async getTransaction(hash: Hash): Promise<TransactionInfo> {
+    try {
+      const publicClient = this.client.publicClient;
+      const transaction = await this.execute('getTransaction', () => publicClient.getTransaction({ hash }));
+      let receipt: TransactionReceipt | undefined;
+      let latestBlock: bigint | undefined;
+      // Pending transactions have no block and no receipt yet
+      if (transaction.blockNumber !== null) {
+        [receipt, latestBlock] = await Promise.all([
+          this.execute('getTransactionReceipt', () => publicClient.getTransactionReceipt({ hash })),
+          this.execute('getBlockNumber', () => publicClient.getBlockNumber()),
+        ]);
+      }
+      return {
+        hash,
+        status: receipt?.status ?? 'pending',
+        from: transaction.from,
+        to: transaction.to,
+        nonce: transaction.nonce,
+        value: transaction.value.toString(),
+        blockNumber: receipt ? receipt.blockNumber.toString() : null,
+        confirmations: receipt && latestBlock !== undefined ? Number(latestBlock - receipt.blockNumber + 1n) : 0,
+        receipt: receipt ? summarizeReceipt(receipt) : null,
+      };
+    } catch (error: any) {
+      logger.error(`Error getting transaction ${hash}: ${error.message}`);
+      throw toRecallError(error);
+    }
+  }
+
+  /**
+   * Checks the profile's network: the chain the RPC endpoint serves, its latest block and
+   * how long it takes to answer, and the Recall subnet.
+   * @returns The network status.
+   */
+  public async getNetworkStatus(): Promise<NetworkStatus> {
+    try {
+      const publicClient = this.client.publicClient;
+      const chain = publicClient.chain;
+      // Explorer and parent chain lookups throw for chains the chains package does not describe
+      const optional = <T>(get: () => T | undefined): T | null => {
+        try {
+          return get() ?? null;
+        } catch {
+          return null;
+        }
+      };
+
+      const started = Date.now();
+      const block = await this.execute('getBlock', () => publicClient.getBlock());
+      const rpcLatencyMs = Date.now() - started;
+      const [nodeChainId, gasPrice, stats] = await Promise.all([
+        this.execute('getChainId', () => publicClient.getChainId()),
+        this.execute('getGasPrice', () => publicClient.getGasPrice()),
+        this.execute('getSubnetStats', () => this.client.blobManager().getSubnetStats()).then(
+          ({ result }) => Object.fromEntries(Object.entries(result).map(([name, value]) => [name, String(value)])),
+          (error) => {
+            logger.warn(`Could not get subnet stats: ${errorMessage(error)}`);
+            return null;
+          },
+        ),
+      ]);
+      const parentChain = optional(() => getParentChain(chain));
+
+      return {
+        network: this.profile.network,
+        chainId: chain.id,
+        chainName: chain.name,
+        chainIdMismatch: nodeChainId === chain.id ? null : nodeChainId,
+        rpcUrl: chain.rpcUrls.default.http[0],
+        explorerUrl: optional(() => getExplorerUrl(chain)),
+        rpcLatencyMs,
+        latestBlock: {
+          number: block.number.toString(),
+          hash: block.hash,
+          timestamp: new Date(Number(block.timestamp) * 1000).toISOString(),
+          ageSeconds: Math.max(0, Math.round(Date.now() / 1000 - Number(block.timestamp))),
+        },
+        gasPrice: gasPrice.toString(),
+        subnet: {
+          id: this.client.getSubnetId().toString(),
+          parentChain: parentChain ? { id: parentChain.id, name: parentChain.name } : null,
+          stats,
+        },
+      };
+    } catch (error: any) {
+      logger.error(`Error getting network status: ${error.message}`);
+      throw toRecallError(error);
     }
   }
 
   /**
    * Buys credit for the account.
-   * @param amount The amount of credit to buy.
+   * @param amount The amount of tokens to spend, in wei.
    * @returns The result of the buy operation.
    */
-  public async buyCredit(amount: string): Promise<Result> {
+  public async buyCredit(amount: bigint): Promise<Result> {
     try {
-      const info = await this.client.creditManager().buy(parseEther(amount));
+      // Never repeated after an ambiguous failure: a second purchase would spend twice
+      const info = await this.write('buyCredit', `buy ${formatEther(amount)} credit`, () => this.client.creditManager().buy(amount));
       return info;
     } catch (error: any) {
       logger.error(`Error buying credit: ${error.message}`);
-      throw error;
+      throw toRecallError(error);
     }
   }
 
@@ -155,14 +815,116 @@ export class RecallClientManager {
    */
   public async createBucket(bucketAlias: string): Promise<Result<{bucket: Address}>> {
     try {
-      const query = await this.client.bucketManager().create({
+      const query = await this.write<Result<{ bucket: Address }>>('createBucket', `create bucket ${bucketAlias}`, () => this.client.bucketManager().create({
         metadata: { alias: bucketAlias },
+      }), {
+        // A repeated create would make a second bucket with the same alias, so only look for the first one
+        recover: async () => {
+          await this.listBuckets();
+          const bucket = this.aliasIndex?.byAlias.get(bucketAlias)?.[0];
+          return bucket ? { result: { bucket }, meta: { recovered: true } } : undefined;
+        },
       });
+      if (query.result?.bucket && this.aliasIndex) {
+        const known = this.aliasIndex.byAlias.get(bucketAlias) ?? [];
+        this.aliasIndex.byAlias.set(bucketAlias, [...known, query.result.bucket]);
+      }
       return query;
     } catch (error: any) {
       logger.error(`Error creating bucket: ${error.message}`);
-      throw error;
+      throw toRecallError(error);
+    }
+  }
+
+  /**
+   * Rebuilds the alias index from a bucket listing.
+   * @param buckets The buckets owned by the account.
+   */
+  private indexAliases(buckets: ListResult): void {
+    const byAlias = new Map<string, Address[]>();
+    for (const bucket of buckets) {
+      const alias = bucket.metadata?.alias;
+      if (typeof alias === 'string' && alias) {
+        byAlias.set(alias, [...(byAlias.get(alias) ?? []), bucket.addr]);
+      }
+    }
+    this.aliasIndex = { byAlias, refreshedAt: Date.now() };
+  }
+
+  /**
+   * Looks up a bucket by alias using the cached alias index.
+   * The index is rebuilt when it is stale or when the alias is not in it, so buckets
+   * created by other writers are still found.
+   * @param bucketAlias The alias to look up.
+   * @returns The bucket address, or undefined if no bucket has this alias.
+   * @throws If more than one bucket has this alias.
+   */
+  public async findBucketByAlias(bucketAlias: string): Promise<Address | undefined> {
+    const index = this.aliasIndex;
+    const isFresh = index && Date.now() - index.refreshedAt < ALIAS_INDEX_TTL_MS;
+    let matches = isFresh ? index.byAlias.get(bucketAlias) : undefined;
+    if (!matches) {
+      await this.listBuckets();
+      matches = this.aliasIndex?.byAlias.get(bucketAlias);
+    }
+
+    if (!matches?.length) {
+      return undefined;
+    }
+    if (matches.length > 1) {
+      throw new InvalidArgumentError(
+        `Ambiguous bucket alias "${bucketAlias}" matches ${matches.length} buckets: ${matches.join(', ')}. ` +
+        'Use the bucket address instead.',
+        { code: 'AMBIGUOUS_BUCKET', details: { alias: bucketAlias, buckets: matches } },
+      );
+    }
+    return matches[0];
+  }
+
+  /**
+   * Looks up the alias of a bucket using the cached alias index.
+   * @param bucket The address of the bucket.
+   * @returns The alias, or undefined if the bucket has none or is not owned by this account.
+   */
+  public async findBucketAlias(bucket: Address): Promise<string | undefined> {
+    const find = () => {
+      for (const [alias, addresses] of this.aliasIndex?.byAlias ?? []) {
+        if (addresses.some((address) => address.toLowerCase() === bucket.toLowerCase())) {
+          return alias;
+        }
+      }
+      return undefined;
+    };
+
+    const isFresh = this.aliasIndex && Date.now() - this.aliasIndex.refreshedAt < ALIAS_INDEX_TTL_MS;
+    const alias = isFresh ? find() : undefined;
+    if (alias) {
+      return alias;
     }
+    await this.listBuckets();
+    return find();
+  }
+
+  /**
+   * Resolves a bucket given as either a 0x address or an alias.
+   * @param bucket The bucket address or alias.
+   * @returns The bucket address.
+   * @throws If the address is malformed, or the alias is unknown or ambiguous.
+   */
+  public async resolveBucket(bucket: string): Promise<Address> {
+    if (/^0x/i.test(bucket.trim())) {
+      return parseAddress(bucket, 'Bucket address');
+    }
+
+    const address = await this.findBucketByAlias(bucket);
+    if (!address) {
+      throw new NotFoundError(
+        'BUCKET_NOT_FOUND',
+        `Unknown bucket alias "${bucket}". Use list_buckets to see your buckets or ensure_bucket to create it.`,
+        { details: { bucket } },
+      );
+    }
+    return address;
   }
 
   /**
@@ -173,18 +935,13 @@ export class RecallClientManager {
   public async getOrCreateBucket(bucketAlias: string): Promise<Address> {
     try {
       // Try to find the bucket by alias
-      const buckets = await this.client.bucketManager().list();
-      if (buckets?.result) {
-        const bucket = buckets.result.find((b) => b.metadata?.alias === bucketAlias);
-        if (bucket) {
-          return bucket.addr; // Return existing bucket address
-        } 
+      const existing = await this.findBucketByAlias(bucketAlias);
+      if (existing) {
+        return existing;
       }
 
       // Create new bucket if not found
-      const query = await this.client.bucketManager().create({
-        metadata: { alias: bucketAlias },
-      });
+      const query = await this.createBucket(bucketAlias);
 
       const newBucket = query.result;
       if (!newBucket) {
@@ -195,7 +952,7 @@ export class RecallClientManager {
       return newBucket.bucket;
     } catch (error: any) {
       logger.error(`Error in getOrCreateBucket: ${error.message}`);
-      throw error;
+      throw toRecallError(error);
     }
   }
 
@@ -204,30 +961,60 @@ export class RecallClientManager {
    * @param bucket The address of the bucket.
    * @param key The key under which to store the object.
    * @param data The data to store (as a string, File, or Uint8Array).
-   * @param options Optional parameters.
+   * @param options Optional parameters: overwrite, the content type to record, custom metadata (its
+   * CREATED_AT_METADATA entry is always replaced by the current time), the TTL in seconds (defaults to
+   * the network's) and whether to wait for the receipt (defaults to RECALL_WAIT_FOR_RECEIPTS).
    * @returns The result of the add operation.
    */
   public async addObject(
     bucket: Address,
     key: string,
     data: string | File | Uint8Array,
-    options?: { overwrite?: boolean },
+    options?: {
+      overwrite?: boolean;
+      contentType?: string;
+      metadata?: Record<string, string>;
+      ttl?: number;
+      waitForReceipt?: boolean;
+    },
   ): Promise<Result> {
     try {
       // If data is a string, convert it to a Uint8Array
-      const dataToStore = typeof data === 'string' 
+      let dataToStore = typeof data === 'string' 
         ? new TextEncoder().encode(data)
         : data;
+
+      // The SDK records the type of File inputs as the object's content-type
+      if (options?.contentType && dataToStore instanceof Uint8Array) {
+        dataToStore = new File([dataToStore], key, { type: options.contentType });
+      }
         
-      const info = await this.client
+      const size = dataToStore instanceof File ? dataToStore.size : dataToStore.length;
+      // Every attempt records the same creation time, which tells an earlier attempt's object apart from another writer's
+      const createdAt = new Date().toISOString();
+      const info = await this.write<Result>('addObject', `add ${key} to ${bucket}`, () => this.client
         .bucketManager()
         .add(bucket, key, dataToStore, {
           overwrite: options?.overwrite ?? false,
-        });
+          ...(options?.ttl !== undefined ? { ttl: BigInt(options.ttl) } : {}),
+          // Copy since the SDK adds the content-type to the metadata it is given. The creation time
+          // comes last so caller metadata cannot replace it.
+          metadata: { ...options?.metadata, [CREATED_AT_METADATA]: createdAt },
+        }), {
+        onSubmitted: (options?.waitForReceipt ?? config.RECALL_WAIT_FOR_RECEIPTS) ? undefined : submittedResult,
+        // Without overwrite a repeated add is rejected, so it cannot store the object twice,
+        // and an object found under the key after a failure can only come from an earlier attempt
+        idempotent: !options?.overwrite,
+        recover: options?.overwrite ? undefined : async () => {
+          const { result: stored } = await this.client.bucketManager().getObjectValue(bucket, key);
+          const applied = stored.size === BigInt(size) && stored.metadata?.[CREATED_AT_METADATA] === createdAt;
+          return applied ? { result: undefined, meta: { recovered: true } } : undefined;
+        },
+      });
       return info;
     } catch (error: any) {
       logger.error(`Error adding object: ${error.message}`);
-      throw error;
+      throw toRecallError(error);
     }
   }
 
@@ -239,52 +1026,323 @@ export class RecallClientManager {
    */
   public async getObject(bucket: Address, key: string): Promise<Uint8Array | undefined> {
     try {
-      const info = await this.client.bucketManager().get(bucket, key);
+      const info = await this.execute('getObject', () => this.client.bucketManager().get(bucket, key));
       return info.result;
     } catch (error: any) {
       logger.error(`Error getting object: ${error.message}`);
-      throw error;
+      throw toRecallError(error);
     }
   }
   
+  /**
+   * Gets the stored state of an object without downloading it.
+   * @param bucket The address of the bucket.
+   * @param key The key under which the object is stored.
+   * @returns The blob hash, size, expiry and metadata of the object.
+   */
+  public async getObjectInfo(bucket: Address, key: string): Promise<ObjectValue> {
+    try {
+      const info = await this.execute('getObjectInfo', () => this.client.bucketManager().getObjectValue(bucket, key));
+      return info.result;
+    } catch (error: any) {
+      logger.error(`Error getting object info: ${error.message}`);
+      throw toRecallError(error);
+    }
+  }
+
   /**
    * Gets an object from a bucket and decodes it as a string.
    * @param bucket The address of the bucket.
    * @param key The key under which the object is stored.
    * @returns The data stored under the specified key as a string.
+   * @throws If the object does not exist or is not valid UTF-8.
    */
-  public async getObjectAsString(bucket: Address, key: string): Promise<string | undefined> {
+  public async getObjectAsString(bucket: Address, key: string): Promise<string> {
     try {
       const data = await this.getObject(bucket, key);
-      if (data) {
-        return new TextDecoder().decode(data);
+      if (!data) {
+        throw new NotFoundError('OBJECT_NOT_FOUND', `Object not found: ${key} in bucket ${bucket}`, { details: { bucket, key } });
       }
-      return undefined;
+      return new TextDecoder('utf-8', { fatal: true }).decode(data);
     } catch (error: any) {
       logger.error(`Error getting object as string: ${error.message}`);
-      return undefined;
+      throw toRecallError(error);
+    }
+  }
+
+  /**
+   * Lists every object in a bucket under a prefix, following pagination and
+   * descending into nested keys instead of grouping them by delimiter.
+   * @param bucket The address of the bucket.
+   * @param prefix Only return keys starting with this prefix.
+   * @returns The matching objects with their stored state.
+   */
+  public async listAllObjects(bucket: Address, prefix = ''): Promise<BucketObject[]> {
+    try {
+      const objects: BucketObject[] = [];
+      let startKey = '';
+
+      do {
+        const query = await this.execute('queryObjects', () =>
+          this.client.bucketManager().query(bucket, { prefix, delimiter: '', startKey }));
+        objects.push(...query.result.objects.map(toBucketObject));
+        startKey = query.result.nextKey;
+      } while (startKey);
+
+      return objects;
+    } catch (error: any) {
+      logger.error(`Error listing all bucket objects: ${error.message}`);
+      throw toRecallError(error);
     }
   }
 
   /**
-   * Lists all objects in a bucket.
+   * Deletes an object from a bucket.
    * @param bucket The address of the bucket.
-   * @returns An array of objects containing key and metadata.
+   * @param key The key of the object to delete.
+   * @param options Whether to wait for the receipt (defaults to RECALL_WAIT_FOR_RECEIPTS).
+   * @returns The result of the delete operation.
    */
-  public async listBucketObjects(bucket: Address): Promise<{key: string, metadata?: any}[]> {
+  public async deleteObject(bucket: Address, key: string, options?: { waitForReceipt?: boolean }): Promise<Result> {
     try {
-      const queryResult = await this.client.bucketManager().query(bucket);
-      if (!queryResult.result?.objects.length) {
-        return [];
+      const info = await this.write<Result>('deleteObject', `delete ${key} from ${bucket}`, () => this.client.bucketManager().delete(bucket, key), {
+        onSubmitted: (options?.waitForReceipt ?? config.RECALL_WAIT_FOR_RECEIPTS) ? undefined : submittedResult,
+        idempotent: true,
+        // Once the object is gone, the earlier attempt deleted it
+        recover: () => this.client.bucketManager().getObjectValue(bucket, key).then(
+          () => undefined,
+          (error) => (toRecallError(error).code === 'OBJECT_NOT_FOUND' ? { result: undefined, meta: { recovered: true } } : undefined),
+        ),
+      });
+      return info;
+    } catch (error: any) {
+      logger.error(`Error deleting object: ${error.message}`);
+      throw toRecallError(error);
+    }
+  }
+
+  /**
+   * Adds several objects to a bucket, at most `concurrency` at a time. Failures are reported per item.
+   * In atomic mode the keys must not exist yet, and if any item fails the objects added by this call
+   * are deleted again, so the bucket ends up with all of them or none.
+   * @param bucket The address of the bucket.
+   * @param items The keys, data, content types, metadata and TTLs to store.
+   * @param options Overwrite, atomic mode, concurrency and whether to wait for receipts.
+   * @returns Per-item results, and in atomic mode the keys rolled back and any that could not be.
+   */
+  public async addObjects(
+    bucket: Address,
+    items: BatchAddItem[],
+    options: { overwrite?: boolean; atomic?: boolean; concurrency?: number; waitForReceipt?: boolean } = {},
+  ): Promise<{ results: BatchItemResult<Result>[]; rolledBack: string[]; rollbackFailed: { key: string; error: string }[] }> {
+    if (options.atomic && options.overwrite) {
+      throw new InvalidArgumentError('Atomic batches cannot overwrite, since overwritten objects could not be restored');
+    }
+    // A rollback deletes by key, so it must know each transaction was applied
+    const waitForReceipt = options.atomic ? true : options.waitForReceipt;
+
+    if (options.atomic) {
+      // Only a missing object means the key is free; a failed lookup must not let the batch overwrite
+      const existing = await mapConcurrent(items, options.concurrency ?? 1, (item) =>
+        this.getObjectInfo(bucket, item.key).then(() => item.key, (error) => {
+          const recallError = toRecallError(error);
+          if (recallError.code === 'OBJECT_NOT_FOUND') return undefined;
+          throw recallError;
+        }));
+      const taken = existing.filter((key): key is string => key !== undefined);
+      if (taken.length) {
+        throw new InvalidArgumentError(`Atomic batch keys already exist: ${taken.join(', ')}`, { details: { keys: taken } });
+      }
+    }
+
+    const results = await mapConcurrent(items, options.concurrency ?? 1, (item) => settle(item.key, () =>
+      this.addObject(bucket, item.key, item.data, {
+        overwrite: options.overwrite,
+        contentType: item.contentType,
+        metadata: item.metadata,
+        ttl: item.ttl,
+        waitForReceipt,
+      })));
+
+    const rolledBack: string[] = [];
+    const rollbackFailed: { key: string; error: string }[] = [];
+    if (options.atomic && results.some((result) => !result.ok)) {
+      for (const result of results.filter((result) => result.ok)) {
+        try {
+          await this.deleteObject(bucket, result.key, { waitForReceipt: true });
+          rolledBack.push(result.key);
+        } catch (error) {
+          rollbackFailed.push({ key: result.key, error: toRecallError(error).message });
+        }
+      }
+      logger.warn(`Rolled back ${rolledBack.length} of ${rolledBack.length + rollbackFailed.length} objects of a failed atomic batch`);
+    }
+
+    return { results, rolledBack, rollbackFailed };
+  }
+
+  /**
+   * Gets several objects from a bucket with their stored state, at most `concurrency` at a time.
+   * @param bucket The address of the bucket.
+   * @param keys The keys to fetch.
+   * @param options How many objects to fetch at once.
+   * @returns Per-item results with the data and the object state.
+   */
+  public async getObjects(
+    bucket: Address,
+    keys: string[],
+    options: { concurrency?: number } = {},
+  ): Promise<BatchItemResult<{ data: Uint8Array; info?: ObjectValue }>[]> {
+    return mapConcurrent(keys, options.concurrency ?? 1, (key) => settle(key, async () => {
+      const [data, info] = await Promise.all([
+        this.getObject(bucket, key),
+        this.getObjectInfo(bucket, key).catch(() => undefined),
+      ]);
+      if (!data) {
+        throw new NotFoundError('OBJECT_NOT_FOUND', `Object not found: ${key} in bucket ${bucket}`, { details: { bucket, key } });
+      }
+      return { data, info };
+    }));
+  }
+
+  /**
+   * Deletes every object under a prefix. Deletion continues past individual failures,
+   * which are reported per key.
+   * @param bucket The address of the bucket.
+   * @param prefix The key prefix; an empty prefix deletes every object in the bucket.
+   * @param options Keys to leave in place.
+   * @returns The deleted keys and the keys that could not be deleted.
+   */
+  public async deletePrefix(
+    bucket: Address,
+    prefix: string,
+    options?: { exclude?: string[] },
+  ): Promise<{ deleted: string[]; failed: { key: string; error: string; code: string }[] }> {
+    const keys = (await this.listAllObjects(bucket, prefix))
+      .map((obj) => obj.key)
+      .filter((key) => !options?.exclude?.includes(key));
+    const deleted: string[] = [];
+    const failed: { key: string; error: string; code: string }[] = [];
+
+    // Deletes are sent one at a time so they don't race on the wallet nonce
+    for (const key of keys) {
+      try {
+        await this.deleteObject(bucket, key);
+        deleted.push(key);
+      } catch (error) {
+        const { message, code } = toRecallError(error);
+        failed.push({ key, error: message, code });
       }
-      
-      return queryResult.result.objects.map(obj => ({
-        key: obj.key,
-        metadata: obj.state?.metadata || undefined
+    }
+
+    return { deleted, failed };
+  }
+
+  /**
+   * Lists one page of objects in a bucket.
+   * @param bucket The address of the bucket.
+   * @param options Optional prefix, delimiter, start key and page size. Without a delimiter,
+   * nested keys are listed individually; with one, they are grouped into common prefixes.
+   * @returns The objects on this page, the common prefixes and the key to continue from.
+   */
+  public async listBucketObjects(bucket: Address, options?: ListObjectsOptions): Promise<ListObjectsPage> {
+    try {
+      const queryResult = await this.execute('queryObjects', () => this.client.bucketManager().query(bucket, {
+        prefix: options?.prefix ?? '',
+        delimiter: options?.delimiter ?? '',
+        startKey: options?.startKey ?? '',
+        limit: options?.limit ?? 100,
       }));
+
+      return {
+        objects: queryResult.result.objects.map(toBucketObject),
+        commonPrefixes: [...queryResult.result.commonPrefixes],
+        nextKey: queryResult.result.nextKey || undefined,
+      };
     } catch (error: any) {
       logger.error(`Error listing bucket objects: ${error.message}`);
-      throw error;
+      throw toRecallError(error);
+    }
+  }
+
+  /**
+   * Watches a bucket for changes by periodically diffing query snapshots.
+   * All listeners of a bucket share a single poller, which stops once the last listener is removed.
+   * @param bucket The address of the bucket.
+   * @param listener Called with the added, removed and updated keys whenever the bucket changes.
+   * @returns A function that removes the listener.
+   */
+  public watchBucket(bucket: Address, listener: BucketChangeListener): () => void {
+    let watcher = this.watchers.get(bucket);
+    if (!watcher) {
+      const timer = setInterval(() => void this.pollBucket(bucket), config.RECALL_POLL_INTERVAL_MS);
+      timer.unref();
+      watcher = { timer, listeners: new Set(), polling: false };
+      this.watchers.set(bucket, watcher);
+      // Take the baseline snapshot right away so the first interval can already report changes
+      void this.pollBucket(bucket);
     }
+    watcher.listeners.add(listener);
+
+    return () => {
+      const current = this.watchers.get(bucket);
+      if (!current) return;
+      current.listeners.delete(listener);
+      if (current.listeners.size === 0) {
+        clearInterval(current.timer);
+        this.watchers.delete(bucket);
+      }
+    };
+  }
+
+  /**
+   * Polls a watched bucket once and notifies its listeners of any changes.
+   * @param bucket The address of the bucket.
+   */
+  private async pollBucket(bucket: Address): Promise<void> {
+    const watcher = this.watchers.get(bucket);
+    if (!watcher || watcher.polling) return;
+
+    watcher.polling = true;
+    try {
+      const snapshot = await this.snapshotBucket(bucket);
+      const previous = watcher.snapshot;
+      watcher.snapshot = snapshot;
+      if (!previous) return;
+
+      const change: BucketChange = { bucket, added: [], removed: [], updated: [] };
+      for (const [key, hash] of snapshot) {
+        if (!previous.has(key)) {
+          change.added.push(key);
+        } else if (previous.get(key) !== hash) {
+          change.updated.push(key);
+        }
+      }
+      for (const key of previous.keys()) {
+        if (!snapshot.has(key)) {
+          change.removed.push(key);
+        }
+      }
+
+      if (change.added.length || change.removed.length || change.updated.length) {
+        for (const listener of watcher.listeners) {
+          listener(change);
+        }
+      }
+    } catch (error: any) {
+      logger.warn(`Error polling bucket ${bucket}: ${error.message}`);
+    } finally {
+      watcher.polling = false;
+    }
+  }
+
+  /**
+   * Takes a snapshot of every key in a bucket and the blob hash stored under it.
+   * @param bucket The address of the bucket.
+   * @returns A map from object key to blob hash.
+   */
+  private async snapshotBucket(bucket: Address): Promise<Map<string, string>> {
+    const objects = await this.listAllObjects(bucket);
+    return new Map(objects.map((obj) => [obj.key, obj.blobHash]));
   }
-} 
\ No newline at end of file
+}
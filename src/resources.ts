@@ -0,0 +1,331 @@
+import { Resource, ResourceTemplate, ReadResourceResult } from '@modelcontextprotocol/sdk/types.js';
+import { ListResultBucket } from '@recallnet/sdk/bucket';
+import { Address } from 'viem';
+import { decodeUtf8, detectMimeType } from './content.js';
+import { ENCRYPTION_METADATA, ObjectEncryption } from './encryption.js';
+import { logger } from './env.js';
+import { AccessPolicy } from './permissions.js';
+import { BucketChange, BucketObject, InvalidArgumentError, RecallClientManager } from './recall-client.js';
+import { RESERVED_KEY_PREFIX } from './validation.js';
+
+export const RECALL_URI_PREFIX = 'recall://';
+
+// Objects listed per resources/list page
+const RESOURCES_PAGE_SIZE = 100;
+
+// Where a resources/list page starts: a bucket address and the key to continue from in it
+interface ResourceCursor {
+  bucket: Address;
+  startKey: string;
+}
+
+// A parsed recall:// URI. `key` is undefined when the URI points at the bucket itself.
+export interface RecallUri {
+  bucket: string;
+  key?: string;
+}
+
+// Resource templates advertised to clients so they can build URIs themselves
+export const RECALL_RESOURCE_TEMPLATES: ResourceTemplate[] = [
+  {
+    uriTemplate: `${RECALL_URI_PREFIX}{bucket}`,
+    name: 'Recall bucket',
+    description: 'Listing of the objects stored in a Recall bucket, addressed by alias or 0x address',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: `${RECALL_URI_PREFIX}{bucket}/{key}`,
+    name: 'Recall object',
+    description: 'An object stored in a Recall bucket, addressed by bucket alias or 0x address and object key',
+  },
+];
+
+/**
+ * Builds a recall:// URI for a bucket or an object within a bucket.
+ * Each key segment is percent-encoded so keys with reserved characters round-trip.
+ * @param bucket The bucket alias or address.
+ * @param key The optional object key.
+ * @returns The resource URI.
+ */
+export function buildRecallUri(bucket: string, key?: string): string {
+  const base = `${RECALL_URI_PREFIX}${encodeURIComponent(bucket)}`;
+  if (key === undefined) {
+    return base;
+  }
+  return `${base}/${key.split('/').map(encodeURIComponent).join('/')}`;
+}
+
+/**
+ * Parses a recall:// URI into its bucket and key parts.
+ * @param uri The resource URI.
+ * @returns The parsed URI.
+ */
+export function parseRecallUri(uri: string): RecallUri {
+  if (!uri.startsWith(RECALL_URI_PREFIX)) {
+    throw new Error(`Unsupported resource URI: ${uri}`);
+  }
+
+  const path = uri.slice(RECALL_URI_PREFIX.length);
+  const separator = path.indexOf('/');
+  const bucketPart = separator === -1 ? path : path.slice(0, separator);
+  const keyPart = separator === -1 ? '' : path.slice(separator + 1);
+
+  if (!bucketPart) {
+    throw new Error(`Resource URI is missing a bucket: ${uri}`);
+  }
+
+  try {
+    return {
+      bucket: decodeURIComponent(bucketPart),
+      key: keyPart ? keyPart.split('/').map(decodeURIComponent).join('/') : undefined,
+    };
+  } catch {
+    throw new Error(`Malformed resource URI: ${uri}`);
+  }
+}
+
+/**
+ * Pairs each object of a listing with its plaintext key, decrypting encrypted key names, and
+ * leaves out the server's own objects under RESERVED_KEY_PREFIX.
+ * @param objectEncryption The profile's object encryption.
+ * @param bucket The address of the bucket.
+ * @param objects The listed objects.
+ * @returns The visible objects with their plaintext keys.
+ */
+export async function visibleObjects(
+  objectEncryption: ObjectEncryption,
+  bucket: Address,
+  objects: BucketObject[],
+): Promise<{ key: string; obj: BucketObject }[]> {
+  const visible: { key: string; obj: BucketObject }[] = [];
+  for (const obj of objects) {
+    if (obj.key.startsWith(RESERVED_KEY_PREFIX)) continue;
+    visible.push({ key: (await objectEncryption.decryptKeyName(bucket, obj.key)) ?? obj.key, obj });
+  }
+  return visible;
+}
+
+const bucketAlias = (bucket: ListResultBucket): string | undefined =>
+  typeof bucket.metadata?.alias === 'string' && bucket.metadata.alias ? bucket.metadata.alias : undefined;
+
+const encodeCursor = (cursor: ResourceCursor): string => Buffer.from(JSON.stringify(cursor)).toString('base64url');
+
+const decodeCursor = (cursor: string): ResourceCursor => {
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8')) as ResourceCursor;
+    if (typeof parsed.bucket === 'string' && typeof parsed.startKey === 'string') return parsed;
+  } catch {
+    // Reported below
+  }
+  throw new InvalidArgumentError('Invalid resources/list cursor', { hint: 'Pass the nextCursor of the previous page unchanged.' });
+};
+
+/**
+ * Lists the permitted buckets and their objects as MCP resources, one page at a time. A page
+ * holds at most RESOURCES_PAGE_SIZE objects of a single bucket, preceded by the bucket itself
+ * on the bucket's first page.
+ * @param recallClient The Recall client manager.
+ * @param policy The access policy filtering the buckets.
+ * @param objectEncryption The object encryption used to show plaintext key names.
+ * @param cursor The nextCursor of the previous page, or undefined for the first page.
+ * @returns The resources on this page, and the cursor of the next page if there is one.
+ * @throws InvalidArgumentError if the cursor is malformed or its bucket is gone.
+ */
+export async function listRecallResources(
+  recallClient: RecallClientManager,
+  policy: AccessPolicy,
+  objectEncryption: ObjectEncryption,
+  cursor?: string,
+): Promise<{ resources: Resource[]; nextCursor?: string }> {
+  const allBuckets = await recallClient.listBuckets();
+  const buckets: ListResultBucket[] = [];
+  for (const bucket of allBuckets) {
+    if (await policy.isBucketAllowed({ address: bucket.addr, alias: bucketAlias(bucket) })) {
+      buckets.push(bucket);
+    }
+  }
+
+  const start = cursor === undefined ? { bucket: buckets[0]?.addr, startKey: '' } : decodeCursor(cursor);
+  const index = buckets.findIndex((bucket) => bucket.addr.toLowerCase() === start.bucket?.toLowerCase());
+  if (index === -1) {
+    if (cursor === undefined) return { resources: [] };
+    throw new InvalidArgumentError(`Bucket ${start.bucket} of the resources/list cursor is no longer listed`);
+  }
+  const bucket = buckets[index];
+
+  // Prefer the alias in URIs since it is stable and readable, unless other buckets share it
+  const alias = bucketAlias(bucket);
+  const label = alias && allBuckets.filter((other) => bucketAlias(other) === alias).length === 1 ? alias : bucket.addr;
+
+  const resources: Resource[] = [];
+  if (!start.startKey) {
+    resources.push({
+      uri: buildRecallUri(label),
+      name: `Bucket ${label}`,
+      description: `Objects stored in Recall bucket ${bucket.addr}`,
+      mimeType: 'application/json',
+    });
+  }
+
+  const page = await recallClient.listBucketObjects(bucket.addr, { startKey: start.startKey, limit: RESOURCES_PAGE_SIZE });
+  for (const { key, obj } of await visibleObjects(objectEncryption, bucket.addr, page.objects)) {
+    // Encrypted objects keep their original content type among the encryption parameters
+    const contentType = obj.metadata?.[ENCRYPTION_METADATA.contentType] ?? obj.metadata?.['content-type'];
+    resources.push({
+      uri: buildRecallUri(label, key),
+      name: key,
+      description: `Object ${key} in Recall bucket ${label}`,
+      ...(typeof contentType === 'string' ? { mimeType: contentType } : {}),
+    });
+  }
+
+  const next = page.nextKey
+    ? { bucket: bucket.addr, startKey: page.nextKey }
+    : buckets[index + 1] && { bucket: buckets[index + 1].addr, startKey: '' };
+  return { resources, ...(next ? { nextCursor: encodeCursor(next) } : {}) };
+}
+
+/**
+ * Reads a recall:// resource. Bucket URIs return a JSON listing of their objects,
+ * object URIs return the object as text when it is valid UTF-8 and as a base64 blob otherwise.
+ * Keys are plaintext: encrypted key names and payloads are decrypted, as get_object does.
+ * @param recallClient The Recall client manager.
+ * @param policy The access policy the bucket is checked against.
+ * @param objectEncryption The object encryption used to decrypt key names and payloads.
+ * @param uri The resource URI.
+ * @returns The resource contents.
+ */
+export async function readRecallResource(
+  recallClient: RecallClientManager,
+  policy: AccessPolicy,
+  objectEncryption: ObjectEncryption,
+  uri: string,
+): Promise<ReadResourceResult> {
+  const { bucket, key } = parseRecallUri(uri);
+  const address = await policy.resolveBucket(bucket);
+
+  if (key === undefined) {
+    const objects = await visibleObjects(objectEncryption, address, await recallClient.listAllObjects(address));
+    return {
+      contents: [
+        {
+          uri,
+          mimeType: 'application/json',
+          text: JSON.stringify({
+            bucket: address,
+            objects: objects.map(({ key: objectKey, obj }) => ({
+              key: objectKey,
+              uri: buildRecallUri(bucket, objectKey),
+              metadata: obj.metadata || null,
+            })),
+          }, null, 2),
+        },
+      ],
+    };
+  }
+
+  // The object info carries the encryption parameters
+  const storedKey = await objectEncryption.resolveStoredKey(address, key);
+  const [stored, info] = await Promise.all([
+    recallClient.getObject(address, storedKey),
+    recallClient.getObjectInfo(address, storedKey).catch(() => undefined),
+  ]);
+  if (!stored) {
+    throw new Error(`Object not found: ${key} in bucket ${bucket}`);
+  }
+
+  const { data } = await objectEncryption.decrypt(address, key, stored, info?.metadata);
+
+  const mimeType = detectMimeType(data);
+  const text = decodeUtf8(data);
+  if (text !== undefined) {
+    return { contents: [{ uri, mimeType, text }] };
+  }
+  return { contents: [{ uri, mimeType, blob: Buffer.from(data).toString('base64') }] };
+}
+
+// Callbacks used to forward bucket changes to the connected client
+export interface ResourceChangeNotifier {
+  onResourceUpdated: (uri: string) => void | Promise<void>;
+  onResourceListChanged: () => void | Promise<void>;
+}
+
+/**
+ * Tracks the recall:// resources a client subscribed to and forwards changes
+ * detected by the bucket pollers in RecallClientManager.
+ */
+export class ResourceSubscriptions {
+  // One bucket watcher per address, shared by every subscribed URI in that bucket, each mapped to the stored key it watches
+  private buckets = new Map<Address, { unwatch: () => void; uris: Map<string, string | undefined> }>();
+
+  constructor(
+    private recallClient: RecallClientManager,
+    private policy: AccessPolicy,
+    private objectEncryption: ObjectEncryption,
+    private notifier: ResourceChangeNotifier,
+  ) {}
+
+  /**
+   * Subscribes to updates of a bucket or object resource.
+   * @param uri The resource URI.
+   */
+  public async subscribe(uri: string): Promise<void> {
+    const { bucket, key } = parseRecallUri(uri);
+    const address = await this.policy.resolveBucket(bucket);
+    // Changes are reported by stored key, which differs from the URI's key when the name is encrypted
+    const storedKey = key === undefined ? undefined : await this.objectEncryption.resolveStoredKey(address, key);
+
+    let entry = this.buckets.get(address);
+    if (!entry) {
+      const uris = new Map<string, string | undefined>();
+      const unwatch = this.recallClient.watchBucket(address, (change) => this.handleChange(uris, change));
+      entry = { unwatch, uris };
+      this.buckets.set(address, entry);
+    }
+    entry.uris.set(uri, storedKey);
+  }
+
+  /**
+   * Removes a subscription. Unknown URIs are ignored.
+   * @param uri The resource URI.
+   */
+  public unsubscribe(uri: string): void {
+    for (const [address, entry] of this.buckets) {
+      if (entry.uris.delete(uri) && entry.uris.size === 0) {
+        entry.unwatch();
+        this.buckets.delete(address);
+      }
+    }
+  }
+
+  /**
+   * Drops every subscription and stops the underlying pollers.
+   */
+  public close(): void {
+    for (const entry of this.buckets.values()) {
+      entry.unwatch();
+    }
+    this.buckets.clear();
+  }
+
+  private handleChange(uris: Map<string, string | undefined>, change: BucketChange): void {
+    const changedKeys = new Set([...change.added, ...change.removed, ...change.updated]);
+
+    for (const [uri, key] of uris) {
+      // Bucket resources change whenever any of their objects do
+      if (key === undefined || changedKeys.has(key)) {
+        this.notify(() => this.notifier.onResourceUpdated(uri));
+      }
+    }
+
+    if (change.added.length || change.removed.length) {
+      this.notify(() => this.notifier.onResourceListChanged());
+    }
+  }
+
+  private notify(send: () => void | Promise<void>): void {
+    Promise.resolve()
+      .then(send)
+      .catch((error: any) => logger.warn(`Failed to send resource notification: ${error.message}`));
+  }
+}
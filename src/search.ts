@@ -0,0 +1,330 @@
+import { mkdir, readdir, readFile, rename, writeFile } from 'fs/promises';
+import { join, resolve } from 'path';
+import { pathToFileURL } from 'url';
+import { Address, getAddress } from 'viem';
+import { decodeUtf8 } from './content.js';
+import { ENCRYPTION_METADATA, ObjectEncryption } from './encryption.js';
+import { config, logger } from './env.js';
+import { RecallClientManager, toRecallError } from './recall-client.js';
+
+/**
+ * A local embedding function. Returns a vector for the given text; vectors from the
+ * same function must have the same length.
+ */
+export type EmbeddingFunction = (text: string) => Promise<number[]>;
+
+// One indexed object, by stored key. Binary or oversized objects are indexed by key only, and encrypted ones without
+// RECALL_SEARCH_ENCRYPTED with no terms at all, so they are not refetched.
+interface IndexedDocument {
+  // The plaintext key, when the stored key is encrypted
+  key?: string;
+  blobHash: string;
+  length: number;
+  terms: Record<string, number>;
+  text: string;
+  embedding?: number[];
+}
+
+interface BucketIndex {
+  version: number;
+  bucket: Address;
+  embeddingModel: string | null;
+  // Whether encrypted objects were indexed by their plaintext (RECALL_SEARCH_ENCRYPTED)
+  includesEncrypted: boolean;
+  updatedAt: string;
+  documents: Record<string, IndexedDocument>;
+}
+
+export interface RefreshResult {
+  indexed: number;
+  removed: number;
+  // Objects that could not be fetched or embedded; they keep their previous entry and are retried on the next refresh
+  failed: { key: string; error: string }[];
+}
+
+export interface SearchHit {
+  bucket: Address;
+  key: string;
+  score: number;
+  snippet: string;
+}
+
+// Version 3 leaves encrypted objects out unless RECALL_SEARCH_ENCRYPTED is set
+const INDEX_VERSION = 3;
+
+// Objects larger than this are not downloaded for indexing
+const MAX_INDEXED_BYTES = 1024 * 1024;
+
+// Only the start of each object is kept for snippets and embeddings
+const MAX_STORED_CHARS = 10_000;
+
+const SNIPPET_CHARS = 160;
+
+// BM25 parameters
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// Share of the final score taken by embedding similarity when an embedding function is set
+const EMBEDDING_WEIGHT = 0.5;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'in', 'is', 'it',
+  'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'were', 'with',
+]);
+
+const tokenize = (text: string): string[] =>
+  (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).filter((token) => !STOP_WORDS.has(token));
+
+const cosine = (a: number[], b: number[]): number => {
+  if (a.length !== b.length || a.length === 0) return 0;
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+};
+
+// A window of text around the first query term, or the start of the text
+const makeSnippet = (text: string, terms: string[]): string => {
+  const lower = text.toLowerCase();
+  const hit = terms.map((term) => lower.indexOf(term)).filter((i) => i >= 0).sort((a, b) => a - b)[0];
+  const start = Math.max(0, (hit ?? 0) - SNIPPET_CHARS / 4);
+  const snippet = text.slice(start, start + SNIPPET_CHARS).replace(/\s+/g, ' ').trim();
+  return `${start > 0 ? '…' : ''}${snippet}${start + SNIPPET_CHARS < text.length ? '…' : ''}`;
+};
+
+/**
+ * Local full-text search over bucket contents.
+ * Each bucket has a BM25 inverted index persisted under the profile's data directory, refreshed
+ * incrementally by comparing blob hashes with the current bucket listing. When an embedding
+ * function is available, scores blend BM25 with embedding similarity.
+ */
+export class SearchIndex {
+  private indexes = new Map<Address, BucketIndex>();
+  private embed?: EmbeddingFunction;
+  private embeddingModel: string | null = null;
+  private embeddingLoaded = false;
+
+  constructor(
+    private recallClient: RecallClientManager,
+    private objectEncryption: ObjectEncryption,
+  ) {}
+
+  /**
+   * Registers an embedding function, replacing any loaded from RECALL_EMBEDDING_MODULE.
+   * Changing the model name re-embeds documents on their next refresh.
+   * @param fn The embedding function.
+   * @param model A name identifying the model the vectors come from.
+   */
+  public setEmbeddingFunction(fn: EmbeddingFunction, model: string): void {
+    this.embed = fn;
+    this.embeddingModel = model;
+    this.embeddingLoaded = true;
+  }
+
+  private async loadEmbeddingFunction(): Promise<void> {
+    if (this.embeddingLoaded) return;
+    this.embeddingLoaded = true;
+
+    const modulePath = config.RECALL_EMBEDDING_MODULE;
+    if (!modulePath) return;
+
+    const mod = await import(pathToFileURL(resolve(modulePath)).href);
+    if (typeof mod.default !== 'function') {
+      throw new Error(`Embedding module ${modulePath} must default-export an embedding function`);
+    }
+    this.embed = mod.default as EmbeddingFunction;
+    this.embeddingModel = modulePath;
+  }
+
+  private get indexDir(): string {
+    return join(this.recallClient.profile.dataDir, 'search');
+  }
+
+  private indexPath(bucket: Address): string {
+    return join(this.indexDir, `${bucket.toLowerCase()}.json`);
+  }
+
+  private async loadIndex(bucket: Address): Promise<BucketIndex> {
+    const cached = this.indexes.get(bucket);
+    if (cached) return cached;
+
+    let index: BucketIndex;
+    try {
+      index = JSON.parse(await readFile(this.indexPath(bucket), 'utf8')) as BucketIndex;
+      if (index.version !== INDEX_VERSION) throw new Error('outdated index');
+    } catch {
+      index = { version: INDEX_VERSION, bucket, embeddingModel: null, includesEncrypted: false, updatedAt: '', documents: {} };
+    }
+    this.indexes.set(bucket, index);
+    return index;
+  }
+
+  private async saveIndex(index: BucketIndex): Promise<void> {
+    await mkdir(this.indexDir, { recursive: true });
+    const path = this.indexPath(index.bucket);
+    // Write then rename so a crash never leaves a truncated index behind
+    await writeFile(`${path}.tmp`, JSON.stringify(index));
+    await rename(`${path}.tmp`, path);
+  }
+
+  /**
+   * Lists the buckets that have a persisted index.
+   * @returns The bucket addresses.
+   */
+  public async indexedBuckets(): Promise<Address[]> {
+    try {
+      const files = await readdir(this.indexDir);
+      return files.filter((f) => f.endsWith('.json')).map((f) => getAddress(f.slice(0, -'.json'.length)));
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Brings a bucket's index up to date. Only objects whose blob hash changed are downloaded.
+   * Objects that fail to download are reported and the rest of the bucket is still indexed.
+   * Encrypted objects are only indexed, by their plaintext, when RECALL_SEARCH_ENCRYPTED is set,
+   * since the index file itself is not encrypted; changing the setting rebuilds the index.
+   * @param bucket The address of the bucket.
+   * @param options Set rebuild to discard the existing index first.
+   * @returns How many documents were (re)indexed and removed, and the keys that failed.
+   */
+  public async refresh(bucket: Address, options?: { rebuild?: boolean }): Promise<RefreshResult> {
+    await this.loadEmbeddingFunction();
+    const index = await this.loadIndex(bucket);
+    const includeEncrypted = config.RECALL_SEARCH_ENCRYPTED && this.objectEncryption.enabled;
+    if (options?.rebuild || index.includesEncrypted !== includeEncrypted) {
+      index.documents = {};
+    }
+    const embed = this.embed;
+    const reembed = !!embed && index.embeddingModel !== this.embeddingModel;
+
+    const objects = await this.recallClient.listAllObjects(bucket);
+    const live = new Set(objects.map((obj) => obj.key));
+    const failed: RefreshResult['failed'] = [];
+    let indexed = 0;
+    let removed = 0;
+
+    for (const key of Object.keys(index.documents)) {
+      if (!live.has(key)) {
+        delete index.documents[key];
+        removed++;
+      }
+    }
+
+    for (const obj of objects) {
+      const existing = index.documents[obj.key];
+      try {
+        if (existing?.blobHash === obj.blobHash) {
+          // Unchanged content only needs new vectors when the embedding model changed
+          if (reembed && embed && existing.text) {
+            existing.embedding = await embed(existing.text);
+            indexed++;
+          }
+          continue;
+        }
+
+        // Without the opt-in, encrypted objects are kept with no key, terms or text, so none of their plaintext reaches the disk
+        if (obj.metadata?.[ENCRYPTION_METADATA.algorithm] !== undefined && !includeEncrypted) {
+          index.documents[obj.key] = { blobHash: obj.blobHash, length: 0, terms: {}, text: '' };
+          continue;
+        }
+
+        const key = await this.objectEncryption.decryptKeyName(bucket, obj.key);
+        const data = obj.size <= BigInt(MAX_INDEXED_BYTES)
+          ? await this.recallClient.getObject(bucket, obj.key) ?? new Uint8Array()
+          : undefined;
+        const text = data
+          ? decodeUtf8((await this.objectEncryption.decrypt(bucket, key ?? obj.key, data, obj.metadata)).data)
+          : undefined;
+        // Keys are searchable too, so "reports 2024" finds reports/2024/q1.md
+        const tokens = [...tokenize(key ?? obj.key), ...tokenize(text ?? '')];
+        const terms: Record<string, number> = {};
+        for (const token of tokens) {
+          terms[token] = (terms[token] ?? 0) + 1;
+        }
+
+        const stored = (text ?? '').slice(0, MAX_STORED_CHARS);
+        index.documents[obj.key] = {
+          ...(key ? { key } : {}),
+          blobHash: obj.blobHash,
+          length: tokens.length,
+          terms,
+          text: stored,
+          embedding: embed && stored ? await embed(stored) : undefined,
+        };
+        indexed++;
+      } catch (error) {
+        failed.push({ key: obj.key, error: toRecallError(error).message });
+      }
+    }
+
+    index.embeddingModel = embed ? this.embeddingModel : null;
+    index.includesEncrypted = includeEncrypted;
+    index.updatedAt = new Date().toISOString();
+    await this.saveIndex(index);
+    logger.info(`Search index for ${bucket}: ${indexed} indexed, ${removed} removed, ${failed.length} failed`);
+    return { indexed, removed, failed };
+  }
+
+  /**
+   * Searches the indexes of the given buckets. Term statistics are taken over the documents of
+   * all the buckets together, so scores are comparable across buckets.
+   * @param query The search query.
+   * @param buckets The buckets to search.
+   * @param limit The maximum number of hits.
+   * @returns Hits ranked by score, best first.
+   */
+  public async search(query: string, buckets: Address[], limit = 10): Promise<SearchHit[]> {
+    await this.loadEmbeddingFunction();
+    const terms = [...new Set(tokenize(query))];
+    const queryEmbedding = this.embed ? await this.embed(query) : undefined;
+
+    const docs: { bucket: Address; key: string; doc: IndexedDocument }[] = [];
+    for (const bucket of buckets) {
+      const index = await this.loadIndex(bucket);
+      for (const [storedKey, doc] of Object.entries(index.documents)) {
+        if (doc.length > 0) docs.push({ bucket, key: doc.key ?? storedKey, doc });
+      }
+    }
+    if (!docs.length) return [];
+
+    const avgLength = docs.reduce((sum, { doc }) => sum + doc.length, 0) / docs.length;
+    const idf = terms.map((term) => {
+      const df = docs.filter(({ doc }) => doc.terms[term]).length;
+      return { term, weight: Math.log(1 + (docs.length - df + 0.5) / (df + 0.5)) };
+    });
+
+    const scored = docs.map(({ bucket, key, doc }) => {
+      let bm25 = 0;
+      for (const { term, weight } of idf) {
+        const tf = doc.terms[term] ?? 0;
+        if (!tf) continue;
+        bm25 += weight * (tf * (BM25_K1 + 1)) /
+          (tf + BM25_K1 * (1 - BM25_B + BM25_B * doc.length / avgLength));
+      }
+      const similarity = queryEmbedding && doc.embedding ? cosine(queryEmbedding, doc.embedding) : undefined;
+      return { bucket, key, doc, bm25, similarity };
+    });
+
+    // Normalize BM25 over all results so it can be blended with cosine similarity
+    const maxBm25 = Math.max(...scored.map((s) => s.bm25), 0);
+    const hits: SearchHit[] = [];
+    for (const { bucket, key, doc, bm25, similarity } of scored) {
+      const lexical = maxBm25 > 0 ? bm25 / maxBm25 : 0;
+      const score = similarity === undefined
+        ? lexical
+        : (1 - EMBEDDING_WEIGHT) * lexical + EMBEDDING_WEIGHT * Math.max(similarity, 0);
+      if (score > 0) {
+        hits.push({ bucket, key, score: Number(score.toFixed(4)), snippet: makeSnippet(doc.text, terms) });
+      }
+    }
+
+    return hits.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+}
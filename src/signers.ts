@@ -0,0 +1,365 @@
+import { spawnSync } from 'child_process';
+import { createDecipheriv, pbkdf2Sync, scryptSync, timingSafeEqual } from 'crypto';
+import { closeSync, openSync, readFileSync, readSync, writeSync } from 'fs';
+import sodium from 'sodium-native';
+import {
+  Address,
+  getAddress,
+  Hex,
+  keccak256,
+  LocalAccount,
+  serializeTransaction,
+  SignableMessage,
+  stringify,
+  toHex,
+} from 'viem';
+import { privateKeyToAccount, toAccount } from 'viem/accounts';
+import { getPrivateKey, logger, takeSecretEnv } from './env.js';
+
+// Where a signer reads its passphrase from. Without either, it is prompted for on the terminal.
+export interface PassphraseSource {
+  passphraseFile?: string;
+  passphraseEnv?: string;
+}
+
+// How a profile signs transactions
+export type SignerSource =
+  // RECALL_PRIVATE_KEY from the environment or .env
+  | { type: 'default' }
+  // A raw private key in another environment variable
+  | { type: 'env'; variable: string }
+  // An Ethereum V3 JSON keystore, as written by geth, foundry or MetaMask exports
+  | ({ type: 'keystore'; path: string } & PassphraseSource)
+  // An entry in a vault file created with `npm run keytool`
+  | ({ type: 'vault'; path: string; name: string } & PassphraseSource)
+  // A separate process holding the key, reached over JSON-RPC
+  | { type: 'remote'; url: string; address: Address; tokenEnv?: string };
+
+export const SIGNER_TYPES: SignerSource['type'][] = ['default', 'env', 'keystore', 'vault', 'remote'];
+
+/**
+ * JSON-RPC methods a remote signer must implement. Every call is a POST of
+ * `{ jsonrpc: "2.0", id, method, params: [request] }` and must answer with `{ result: <hex> }`.
+ */
+export interface RemoteSignerMethods {
+  // Signs a serialized unsigned transaction and returns the serialized signed transaction
+  recall_signTransaction: { address: Address; chainId?: number; transaction: Hex };
+  // Signs raw message bytes with the EIP-191 prefix and returns the signature
+  recall_signMessage: { address: Address; message: Hex };
+  // Signs EIP-712 typed data (bigints encoded as strings) and returns the signature
+  recall_signTypedData: { address: Address; typedData: string };
+}
+
+// Versioned vault file: a libsodium secretbox of a JSON map of key names to private keys
+export interface VaultFile {
+  version: 1;
+  kdf: 'argon2id13';
+  opslimit: number;
+  memlimit: number;
+  salt: string;
+  nonce: string;
+  ciphertext: string;
+}
+
+const VAULT_VERSION = 1;
+
+// Secrets can only be read once (environment variables are redacted and RECALL_PRIVATE_KEY is wiped),
+// so what they unlock is kept per source for every profile that shares it
+const accounts = new Map<string, LocalAccount>();
+const passphrases = new Map<string, string>();
+
+// Identifies where a signer's key comes from, so profiles with the same key share one unlock
+const signerSourceKey = (source: SignerSource): string => {
+  switch (source.type) {
+    case 'env':
+      return `env:${source.variable}`;
+    case 'keystore':
+      return `keystore:${source.path}`;
+    case 'vault':
+      return `vault:${source.path}:${source.name}`;
+    case 'remote':
+      return `remote:${source.url}:${source.address.toLowerCase()}:${source.tokenEnv ?? ''}`;
+    case 'default':
+    default:
+      return 'default';
+  }
+};
+
+/**
+ * Reads a line from the controlling terminal with echo turned off. Stdin cannot be used
+ * since it carries the MCP stdio transport.
+ * @param question The prompt to show.
+ * @returns The entered text.
+ */
+export function promptHidden(question: string): string {
+  let fd: number;
+  try {
+    fd = openSync('/dev/tty', 'r+');
+  } catch {
+    throw new Error('No terminal is available to prompt for a passphrase. Set passphraseFile or passphraseEnv instead.');
+  }
+
+  try {
+    writeSync(fd, question);
+    spawnSync('stty', ['-echo'], { stdio: [fd, 'ignore', 'ignore'] });
+    const bytes: number[] = [];
+    const byte = Buffer.alloc(1);
+    while (readSync(fd, byte, 0, 1, null) === 1 && byte[0] !== 0x0a && byte[0] !== 0x0d) {
+      bytes.push(byte[0]);
+    }
+    return Buffer.from(bytes).toString('utf8');
+  } finally {
+    spawnSync('stty', ['echo'], { stdio: [fd, 'ignore', 'ignore'] });
+    writeSync(fd, '\n');
+    closeSync(fd);
+  }
+}
+
+// Passphrase files can be read again; variables and prompts give the passphrase once, so it is kept
+const readPassphrase = (source: PassphraseSource, label: string): string => {
+  if (source.passphraseFile) {
+    return readFileSync(source.passphraseFile, 'utf8').replace(/\r?\n$/, '');
+  }
+  const cacheKey = source.passphraseEnv ? `env:${source.passphraseEnv}` : `prompt:${label}`;
+  let passphrase = passphrases.get(cacheKey);
+  if (passphrase === undefined) {
+    passphrase = source.passphraseEnv ? takeSecretEnv(source.passphraseEnv) : promptHidden(`Passphrase for ${label}: `);
+    if (!passphrase) {
+      throw new Error(`Passphrase for ${label} not found in ${source.passphraseEnv}`);
+    }
+    passphrases.set(cacheKey, passphrase);
+  }
+  return passphrase;
+};
+
+const toPrivateKey = (raw: string): Hex => (raw.startsWith('0x') ? raw : `0x${raw}`) as Hex;
+
+/**
+ * Decrypts an Ethereum V3 JSON keystore (scrypt or pbkdf2, aes-128-ctr).
+ * @param json The keystore file contents.
+ * @param passphrase The keystore passphrase.
+ * @returns The private key.
+ */
+export function decryptKeystore(json: string, passphrase: string): Hex {
+  const keystore = JSON.parse(json);
+  const params = keystore.crypto ?? keystore.Crypto;
+  if (keystore.version !== 3 || !params) {
+    throw new Error('Unsupported keystore: expected a version 3 JSON keystore');
+  }
+  if (params.cipher !== 'aes-128-ctr') {
+    throw new Error(`Unsupported keystore cipher: ${params.cipher}`);
+  }
+
+  const { kdfparams } = params;
+  const salt = Buffer.from(kdfparams.salt, 'hex');
+  let derived: Buffer;
+  if (params.kdf === 'scrypt') {
+    derived = scryptSync(passphrase, salt, kdfparams.dklen, {
+      N: kdfparams.n,
+      r: kdfparams.r,
+      p: kdfparams.p,
+      maxmem: 256 * kdfparams.n * kdfparams.r,
+    });
+  } else if (params.kdf === 'pbkdf2' && kdfparams.prf === 'hmac-sha256') {
+    derived = pbkdf2Sync(passphrase, salt, kdfparams.c, kdfparams.dklen, 'sha256');
+  } else {
+    throw new Error(`Unsupported keystore key derivation: ${params.kdf}`);
+  }
+
+  const ciphertext = Buffer.from(params.ciphertext, 'hex');
+  const mac = Buffer.from(keccak256(Buffer.concat([derived.subarray(16, 32), ciphertext])).slice(2), 'hex');
+  if (!timingSafeEqual(mac, Buffer.from(params.mac, 'hex'))) {
+    throw new Error('Wrong keystore passphrase');
+  }
+
+  const decipher = createDecipheriv('aes-128-ctr', derived.subarray(0, 16), Buffer.from(params.cipherparams.iv, 'hex'));
+  const key = Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+  try {
+    return toHex(key);
+  } finally {
+    // Wipe the key material so it doesn't linger in memory
+    key.fill(0);
+    derived.fill(0);
+  }
+}
+
+// Derive the secretbox key for a vault into a locked sodium buffer
+const deriveVaultKey = (passphrase: string, salt: Buffer, opslimit: number, memlimit: number): sodium.SecureBuffer => {
+  const key = sodium.sodium_malloc(sodium.crypto_secretbox_KEYBYTES) as sodium.SecureBuffer;
+  sodium.crypto_pwhash(key, Buffer.from(passphrase, 'utf8'), salt, opslimit, memlimit, sodium.crypto_pwhash_ALG_ARGON2ID13);
+  return key;
+};
+
+/**
+ * Decrypts every key stored in a vault file.
+ * @param vault The vault file contents.
+ * @param passphrase The vault passphrase.
+ * @returns The stored private keys by name.
+ */
+export function openVault(vault: VaultFile, passphrase: string): Record<string, Hex> {
+  if (vault.version !== VAULT_VERSION || vault.kdf !== 'argon2id13') {
+    throw new Error(`Unsupported vault version ${vault.version}`);
+  }
+
+  const ciphertext = Buffer.from(vault.ciphertext ?? '', 'base64');
+  const nonce = Buffer.from(vault.nonce ?? '', 'base64');
+  const salt = Buffer.from(vault.salt ?? '', 'base64');
+  if (
+    ciphertext.length < sodium.crypto_secretbox_MACBYTES ||
+    nonce.length !== sodium.crypto_secretbox_NONCEBYTES ||
+    salt.length !== sodium.crypto_pwhash_SALTBYTES
+  ) {
+    throw new Error('Vault file is corrupt: its ciphertext, nonce or salt is missing or truncated');
+  }
+  const plaintext = sodium.sodium_malloc(ciphertext.length - sodium.crypto_secretbox_MACBYTES) as sodium.SecureBuffer;
+  const key = deriveVaultKey(passphrase, salt, vault.opslimit, vault.memlimit);
+  try {
+    if (!sodium.crypto_secretbox_open_easy(plaintext, ciphertext, nonce, key)) {
+      throw new Error('Wrong vault passphrase or corrupted vault');
+    }
+    return JSON.parse(plaintext.toString('utf8')).keys;
+  } finally {
+    sodium.sodium_memzero(key);
+    sodium.sodium_memzero(plaintext);
+  }
+}
+
+/**
+ * Encrypts a set of keys into a new vault file.
+ * @param keys The private keys by name.
+ * @param passphrase The vault passphrase.
+ * @returns The vault file contents.
+ */
+export function sealVault(keys: Record<string, Hex>, passphrase: string): VaultFile {
+  const salt = Buffer.alloc(sodium.crypto_pwhash_SALTBYTES);
+  const nonce = Buffer.alloc(sodium.crypto_secretbox_NONCEBYTES);
+  sodium.randombytes_buf(salt);
+  sodium.randombytes_buf(nonce);
+
+  const opslimit = sodium.crypto_pwhash_OPSLIMIT_MODERATE;
+  const memlimit = sodium.crypto_pwhash_MEMLIMIT_MODERATE;
+  const message = Buffer.from(JSON.stringify({ keys }), 'utf8');
+  const ciphertext = Buffer.alloc(message.length + sodium.crypto_secretbox_MACBYTES);
+  const key = deriveVaultKey(passphrase, salt, opslimit, memlimit);
+  try {
+    sodium.crypto_secretbox_easy(ciphertext, message, nonce, key);
+  } finally {
+    sodium.sodium_memzero(key);
+    message.fill(0);
+  }
+
+  return {
+    version: VAULT_VERSION,
+    kdf: 'argon2id13',
+    opslimit,
+    memlimit,
+    salt: salt.toString('base64'),
+    nonce: nonce.toString('base64'),
+    ciphertext: ciphertext.toString('base64'),
+  };
+}
+
+const messageToHex = (message: SignableMessage): Hex => {
+  if (typeof message === 'string') return toHex(message);
+  return typeof message.raw === 'string' ? message.raw : toHex(message.raw);
+};
+
+/**
+ * Creates an account that forwards signing requests to a remote signer over JSON-RPC.
+ * The key never enters this process.
+ * @param source The remote signer URL, account address and optional bearer token variable.
+ * @returns The account.
+ */
+export function remoteSignerAccount(source: Extract<SignerSource, { type: 'remote' }>): LocalAccount {
+  const address = getAddress(source.address);
+  const token = source.tokenEnv ? takeSecretEnv(source.tokenEnv) : undefined;
+  let nextId = 1;
+
+  const call = async <M extends keyof RemoteSignerMethods>(method: M, request: RemoteSignerMethods[M]): Promise<Hex> => {
+    const response = await fetch(source.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+      body: JSON.stringify({ jsonrpc: '2.0', id: nextId++, method, params: [request] }),
+    });
+    if (!response.ok) {
+      throw new Error(`Remote signer returned HTTP ${response.status} for ${method}`);
+    }
+    const body = await response.json() as { result?: Hex; error?: { message?: string } };
+    if (body.error || typeof body.result !== 'string') {
+      throw new Error(`Remote signer rejected ${method}: ${body.error?.message ?? 'no result'}`);
+    }
+    return body.result;
+  };
+
+  return toAccount({
+    address,
+    signMessage: ({ message }) => call('recall_signMessage', { address, message: messageToHex(message) }),
+    signTransaction: (transaction, options) => {
+      const serializer = options?.serializer ?? serializeTransaction;
+      return call('recall_signTransaction', {
+        address,
+        chainId: transaction.chainId,
+        transaction: serializer(transaction) as Hex,
+      });
+    },
+    signTypedData: (typedData) => call('recall_signTypedData', { address, typedData: stringify(typedData) }),
+  });
+}
+
+/**
+ * Builds the signing account for a signer source, decrypting or fetching key material the first
+ * time the source is used. Profiles sharing a source get copies of the same account, each free to
+ * carry its own nonce manager.
+ * @param source The signer source of a profile.
+ * @param label A name for the signer used in prompts and errors.
+ * @returns The account.
+ */
+export function createSignerAccount(source: SignerSource, label: string): LocalAccount {
+  const key = signerSourceKey(source);
+  let account = accounts.get(key);
+  if (!account) {
+    account = unlockSigner(source, label);
+    accounts.set(key, account);
+  }
+  return { ...account };
+}
+
+function unlockSigner(source: SignerSource, label: string): LocalAccount {
+  switch (source.type) {
+    case 'env': {
+      const key = takeSecretEnv(source.variable);
+      if (!key) {
+        throw new Error(`Profile ${label} needs its private key in ${source.variable}`);
+      }
+      return privateKeyToAccount(toPrivateKey(key));
+    }
+
+    case 'keystore': {
+      const json = readFileSync(source.path, 'utf8');
+      const account = privateKeyToAccount(decryptKeystore(json, readPassphrase(source, `keystore ${source.path}`)));
+      logger.info(`Unlocked keystore for profile ${label}`);
+      return account;
+    }
+
+    case 'vault': {
+      const vault = JSON.parse(readFileSync(source.path, 'utf8')) as VaultFile;
+      const keys = openVault(vault, readPassphrase(source, `vault ${source.path}`));
+      const key = keys[source.name];
+      if (!key) {
+        throw new Error(`Vault ${source.path} has no key named ${source.name}`);
+      }
+      logger.info(`Unlocked vault key ${source.name} for profile ${label}`);
+      return privateKeyToAccount(key);
+    }
+
+    case 'remote':
+      return remoteSignerAccount(source);
+
+    case 'default':
+    default:
+      return privateKeyToAccount(toPrivateKey(getPrivateKey()));
+  }
+}
@@ -0,0 +1,241 @@
+import { randomUUID } from 'crypto';
+import { appendFile, mkdir, readFile } from 'fs/promises';
+import { dirname, join } from 'path';
+import { formatEther, parseEther } from 'viem';
+import { config, logger } from './env.js';
+import { RecallClientManager, RecallError, toRecallError, TransactionError } from './recall-client.js';
+import { parseAmount } from './validation.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type SpendingViolation = 'INVALID_AMOUNT' | 'PER_CALL_LIMIT' | 'DAILY_LIMIT' | 'MIN_BALANCE';
+
+/**
+ * Raised when a credit purchase is rejected by the spending policy.
+ * `details` carries the limits involved so agents can adjust the request.
+ */
+export class SpendingPolicyError extends RecallError {
+  declare readonly code: SpendingViolation;
+  declare readonly details: Record<string, string>;
+
+  constructor(code: SpendingViolation, message: string, details: Record<string, string> = {}) {
+    super(code, message, { details, hint: SPENDING_HINTS[code] });
+    this.name = 'SpendingPolicyError';
+  }
+}
+
+const SPENDING_HINTS: Record<SpendingViolation, string> = {
+  INVALID_AMOUNT: 'Pass a positive amount in whole tokens or with a unit, such as "0.01" or "100000000 gwei".',
+  PER_CALL_LIMIT: 'Buy at most maxPerCall in one call.',
+  DAILY_LIMIT: 'Buy at most remainingToday, or wait for earlier purchases to leave the 24-hour window.',
+  MIN_BALANCE: 'Buy less credit, or fund the wallet first.',
+};
+
+// Errors after which the purchase transaction certainly did not transfer any tokens
+const DEFINITE_FAILURES = new Set(['INSUFFICIENT_FUNDS', 'TRANSACTION_REVERTED', 'INVALID_ARGUMENT', 'INVALID_ADDRESS', 'ACCOUNT_NOT_FOUND']);
+
+// A ledger line. A purchase is written as pending before it is sent, then confirmed, failed, or
+// unknown when the call errored in a way that leaves open whether the transaction went through.
+interface LedgerEntry {
+  id: string;
+  timestamp: string;
+  amount: string;
+  status: 'pending' | 'confirmed' | 'failed' | 'unknown';
+  transactionHash?: string | null;
+  error?: string;
+}
+
+// Spending limits and what is left of them, in whole tokens
+export interface SpendingStatus {
+  maxPerCall: string;
+  maxPerDay: string;
+  minWalletBalance: string;
+  spentLast24h: string;
+  remainingToday: string;
+}
+
+export interface Purchase {
+  id: string;
+  timestamp: string;
+  amount: string;
+  status: LedgerEntry['status'];
+  transactionHash: string | null;
+}
+
+/**
+ * Guards buyCredit with per-call and rolling 24h spend caps and a minimum wallet balance.
+ * Every purchase is appended to a ledger in the profile's data directory so daily limits survive restarts.
+ */
+export class SpendingPolicy {
+  // Purchases run one at a time so concurrent calls cannot both fit under the daily cap
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private recallClient: RecallClientManager) {}
+
+  private get ledgerPath(): string {
+    return join(this.recallClient.profile.dataDir, 'credit-ledger.jsonl');
+  }
+
+  private get limits(): { perCall: bigint; perDay: bigint; minBalance: bigint } {
+    return {
+      perCall: parseEther(config.RECALL_MAX_CREDIT_PER_CALL),
+      perDay: parseEther(config.RECALL_MAX_CREDIT_PER_DAY),
+      minBalance: parseEther(config.RECALL_MIN_WALLET_BALANCE),
+    };
+  }
+
+  private async appendLedger(entry: LedgerEntry): Promise<void> {
+    await mkdir(dirname(this.ledgerPath), { recursive: true });
+    await appendFile(this.ledgerPath, `${JSON.stringify(entry)}\n`);
+  }
+
+  /**
+   * Reads the ledger, collapsing each purchase to its latest state.
+   * @returns Purchases, oldest first.
+   */
+  public async getPurchases(): Promise<Purchase[]> {
+    let content: string;
+    try {
+      content = await readFile(this.ledgerPath, 'utf8');
+    } catch {
+      return [];
+    }
+
+    const purchases = new Map<string, Purchase>();
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        const entry = JSON.parse(line) as LedgerEntry;
+        const previous = purchases.get(entry.id);
+        purchases.set(entry.id, {
+          id: entry.id,
+          timestamp: previous?.timestamp ?? entry.timestamp,
+          amount: entry.amount,
+          status: entry.status,
+          transactionHash: entry.transactionHash ?? previous?.transactionHash ?? null,
+        });
+      } catch {
+        logger.warn('Skipping malformed credit ledger line');
+      }
+    }
+    return [...purchases.values()];
+  }
+
+  /**
+   * Sums purchases in the last 24 hours. Pending and unknown purchases count, since they may have gone through.
+   * @returns The amount spent, in wei.
+   */
+  public async spentLast24h(): Promise<bigint> {
+    const since = Date.now() - DAY_MS;
+    return (await this.getPurchases())
+      .filter((p) => p.status !== 'failed' && Date.parse(p.timestamp) >= since)
+      .reduce((sum, p) => sum + BigInt(p.amount), 0n);
+  }
+
+  /**
+   * Summarizes the configured limits and what is left of them.
+   * @returns Limits and remaining allowance, formatted in whole tokens.
+   */
+  public async getStatus(): Promise<SpendingStatus> {
+    const { perCall, perDay, minBalance } = this.limits;
+    const spent = await this.spentLast24h();
+    return {
+      maxPerCall: formatEther(perCall),
+      maxPerDay: formatEther(perDay),
+      minWalletBalance: formatEther(minBalance),
+      spentLast24h: formatEther(spent),
+      remainingToday: formatEther(perDay > spent ? perDay - spent : 0n),
+    };
+  }
+
+  private async authorize(amount: bigint): Promise<void> {
+    const { perCall, perDay, minBalance } = this.limits;
+
+    if (amount > perCall) {
+      throw new SpendingPolicyError('PER_CALL_LIMIT', 'Amount exceeds the per-call credit purchase limit', {
+        requested: formatEther(amount),
+        maxPerCall: formatEther(perCall),
+      });
+    }
+
+    const spent = await this.spentLast24h();
+    if (spent + amount > perDay) {
+      throw new SpendingPolicyError('DAILY_LIMIT', 'Amount exceeds the remaining daily credit purchase limit', {
+        requested: formatEther(amount),
+        spentLast24h: formatEther(spent),
+        maxPerDay: formatEther(perDay),
+        remainingToday: formatEther(perDay > spent ? perDay - spent : 0n),
+      });
+    }
+
+    const { balance } = await this.recallClient.getAccountInfo();
+    if (balance - amount < minBalance) {
+      throw new SpendingPolicyError('MIN_BALANCE', 'Purchase would take the wallet below its minimum balance', {
+        requested: formatEther(amount),
+        balance: formatEther(balance),
+        minWalletBalance: formatEther(minBalance),
+      });
+    }
+  }
+
+  /**
+   * Buys credit if the purchase is within policy, recording it in the ledger.
+   * @param amount The amount to spend, in whole tokens or with a unit (e.g. "0.01" or "100000000 gwei").
+   * @returns The manager result, the ledger id of the purchase and the amount in whole tokens.
+   * @throws SpendingPolicyError if the purchase is not allowed.
+   */
+  public async buyCredit(
+    amount: string,
+  ): Promise<{ id: string; amount: string; result: Awaited<ReturnType<RecallClientManager['buyCredit']>> }> {
+    let wei: bigint;
+    try {
+      wei = parseAmount(amount);
+    } catch (error) {
+      throw new SpendingPolicyError('INVALID_AMOUNT', toRecallError(error).message, { requested: amount });
+    }
+    if (wei <= 0n) {
+      throw new SpendingPolicyError('INVALID_AMOUNT', 'Credit amount must be greater than zero');
+    }
+
+    const run = async () => {
+      await this.authorize(wei);
+
+      const id = randomUUID();
+      const base = { id, amount: wei.toString() };
+      await this.appendLedger({ ...base, timestamp: new Date().toISOString(), status: 'pending' });
+
+      let transactionHash: string | null = null;
+      try {
+        const result = await this.recallClient.buyCredit(wei);
+        transactionHash = result.meta?.tx?.transactionHash ?? null;
+        // A mined purchase can still revert, which spends gas but buys no credit
+        if (result.meta?.tx?.status === 'reverted') {
+          throw new TransactionError('The credit purchase transaction reverted; no credit was bought', {
+            details: { transactionHash },
+          });
+        }
+        await this.appendLedger({
+          ...base,
+          timestamp: new Date().toISOString(),
+          status: 'confirmed',
+          transactionHash,
+        });
+        return { id, amount: formatEther(wei), result };
+      } catch (error) {
+        const { code, message } = toRecallError(error);
+        await this.appendLedger({
+          ...base,
+          timestamp: new Date().toISOString(),
+          status: DEFINITE_FAILURES.has(code) ? 'failed' : 'unknown',
+          ...(transactionHash ? { transactionHash } : {}),
+          error: message,
+        });
+        throw error;
+      }
+    };
+
+    const next = this.queue.then(run, run);
+    this.queue = next.catch(() => undefined);
+    return next;
+  }
+}
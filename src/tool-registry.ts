@@ -0,0 +1,228 @@
+import { CallToolResult, Tool } from '@modelcontextprotocol/sdk/types.js';
+import { z, ZodError, ZodTypeAny } from 'zod';
+import { ObjectContent } from './content.js';
+import { getProfileContext, ProfileContext } from './context.js';
+import { logger } from './env.js';
+import { InvalidArgumentError, RecallError, toRecallError } from './recall-client.js';
+import { ProfileArgSchema } from './types.js';
+
+type JsonSchema = Record<string, unknown>;
+
+// What a handler returns: its output, sent as JSON text, and content blocks to send after it
+export interface ToolResult<O> {
+  structured: O;
+  content?: ObjectContent[];
+  // Set when the call partly failed and the output says which parts
+  isError?: boolean;
+}
+
+/**
+ * A tool declared once: its arguments and output as zod schemas, and the handler that
+ * runs it. Tools list the JSON Schema of their arguments, and calls are validated against it.
+ * The output schema types what the handler returns; the MCP protocol version this server
+ * speaks has no structured tool output, so it is not published.
+ */
+export interface ToolDefinition<I extends z.AnyZodObject = z.AnyZodObject, O extends z.AnyZodObject = z.AnyZodObject> {
+  name: string;
+  description: string;
+  input: I;
+  output: O;
+  // Tools that use no network or wallet do not take the profile argument
+  global?: boolean;
+  handler(args: z.infer<I>, context: ProfileContext): Promise<ToolResult<z.infer<O>>>;
+}
+
+/**
+ * Declares a tool, inferring the handler's argument and output types from its schemas.
+ * @param tool The tool definition.
+ * @returns The same definition.
+ */
+export function defineTool<I extends z.AnyZodObject, O extends z.AnyZodObject>(
+  tool: ToolDefinition<I, O>,
+): ToolDefinition<I, O> {
+  return tool;
+}
+
+/**
+ * Converts a zod schema to JSON Schema. Covers what the tool schemas use: objects, strings,
+ * numbers, booleans, enums, arrays, records, unions and optional, nullable or defaulted values.
+ * Refinements are checked on calls only and do not appear in the JSON Schema.
+ * @param schema The zod schema.
+ * @returns The JSON Schema, with zod descriptions as descriptions.
+ */
+export function toJsonSchema(schema: ZodTypeAny): JsonSchema {
+  const json = convertSchema(schema);
+  return schema.description ? { ...json, description: schema.description } : json;
+}
+
+function convertSchema(schema: ZodTypeAny): JsonSchema {
+  if (schema instanceof z.ZodOptional) {
+    return toJsonSchema(schema.unwrap());
+  }
+  if (schema instanceof z.ZodDefault) {
+    return { ...toJsonSchema(schema.removeDefault()), default: schema._def.defaultValue() };
+  }
+  if (schema instanceof z.ZodEffects) {
+    return toJsonSchema(schema.innerType());
+  }
+  if (schema instanceof z.ZodNullable) {
+    const inner = toJsonSchema(schema.unwrap());
+    return typeof inner.type === 'string' ? { ...inner, type: [inner.type, 'null'] } : { anyOf: [inner, { type: 'null' }] };
+  }
+  if (schema instanceof z.ZodObject) {
+    const properties: Record<string, JsonSchema> = {};
+    const required: string[] = [];
+    for (const [key, value] of Object.entries(schema.shape as z.ZodRawShape)) {
+      properties[key] = toJsonSchema(value);
+      if (!value.isOptional()) required.push(key);
+    }
+    return {
+      type: 'object',
+      properties,
+      ...(required.length ? { required } : {}),
+      ...(schema._def.unknownKeys === 'strict' ? { additionalProperties: false } : {}),
+    };
+  }
+  if (schema instanceof z.ZodString) {
+    const json: JsonSchema = { type: 'string' };
+    for (const check of schema._def.checks) {
+      if (check.kind === 'min') json.minLength = check.value;
+      if (check.kind === 'max') json.maxLength = check.value;
+    }
+    return json;
+  }
+  if (schema instanceof z.ZodNumber) {
+    const json: JsonSchema = { type: 'number' };
+    for (const check of schema._def.checks) {
+      if (check.kind === 'int') json.type = 'integer';
+      if (check.kind === 'min') json[check.inclusive ? 'minimum' : 'exclusiveMinimum'] = check.value;
+      if (check.kind === 'max') json[check.inclusive ? 'maximum' : 'exclusiveMaximum'] = check.value;
+    }
+    return json;
+  }
+  if (schema instanceof z.ZodBoolean) {
+    return { type: 'boolean' };
+  }
+  if (schema instanceof z.ZodEnum) {
+    return { type: 'string', enum: schema.options };
+  }
+  if (schema instanceof z.ZodArray) {
+    return {
+      type: 'array',
+      items: toJsonSchema(schema.element),
+      ...(schema._def.minLength ? { minItems: schema._def.minLength.value } : {}),
+      ...(schema._def.maxLength ? { maxItems: schema._def.maxLength.value } : {}),
+    };
+  }
+  if (schema instanceof z.ZodRecord) {
+    return { type: 'object', additionalProperties: toJsonSchema(schema.valueSchema) };
+  }
+  if (schema instanceof z.ZodUnion) {
+    return { anyOf: (schema.options as ZodTypeAny[]).map(toJsonSchema) };
+  }
+  if (schema instanceof z.ZodUnknown || schema instanceof z.ZodAny) {
+    return {};
+  }
+  throw new Error(`Cannot convert ${schema._def.typeName} to JSON Schema`);
+}
+
+// Name an argument like items[2].key
+const formatPath = (path: (string | number)[]): string =>
+  path.reduce<string>((name, part) => (typeof part === 'number' ? `${name}[${part}]` : name ? `${name}.${part}` : part), '');
+
+// One message naming every invalid argument, with the issues listed in details. Issues raised by the
+// checks in validation.ts carry their own code and details, such as a suggested address.
+const invalidArguments = (tool: string, error: ZodError): InvalidArgumentError => {
+  const issues = error.issues.map((issue): { path: string; message: string; code?: string } => ({
+    path: formatPath(issue.path) || '(arguments)',
+    message: issue.message,
+    ...(issue.code === z.ZodIssueCode.custom ? issue.params : {}),
+  }));
+  const codes = new Set(issues.map((issue) => issue.code ?? 'INVALID_ARGUMENT'));
+  return new InvalidArgumentError(
+    `Invalid arguments for ${tool}: ${issues.map(({ path, message }) => `${path}: ${message}`).join('; ')}`,
+    {
+      code: codes.size === 1 ? ([...codes][0] as InvalidArgumentError['code']) : 'INVALID_ARGUMENT',
+      details: { tool, issues },
+    },
+  );
+};
+
+// Failures are returned as structured errors the agent can act on: a stable code, whether to retry and a hint
+const errorResult = (error: RecallError): CallToolResult => ({
+  content: [{ type: 'text', text: JSON.stringify({ error: error.toJSON() }, null, 2) }],
+  isError: true,
+});
+
+/**
+ * The tools the server offers. Lists them with JSON Schema generated from their zod schemas,
+ * and calls them with validated arguments, returning their output as JSON text.
+ */
+export class ToolRegistry {
+  private tools = new Map<string, ToolDefinition>();
+
+  constructor(tools: ToolDefinition[]) {
+    for (const tool of tools) {
+      this.tools.set(tool.name, tool);
+    }
+  }
+
+  // Recall tools also take the profile argument
+  private inputSchema(tool: ToolDefinition): z.AnyZodObject {
+    return tool.global ? tool.input : ProfileArgSchema.merge(tool.input);
+  }
+
+  /**
+   * @returns Every tool with its input JSON Schema.
+   */
+  public list(): Tool[] {
+    return [...this.tools.values()].map((tool) => ({
+      name: tool.name,
+      description: tool.description,
+      inputSchema: {
+        ...(toJsonSchema(this.inputSchema(tool)) as Tool['inputSchema']),
+        $schema: 'http://json-schema.org/draft-07/schema#',
+      },
+    }));
+  }
+
+  /**
+   * Calls a tool on behalf of a client. Never throws: failures become error results.
+   * @param name The tool name.
+   * @param args The arguments as sent by the client.
+   * @returns The tool result, with the output as JSON text on success.
+   */
+  public async call(name: string, args: Record<string, unknown> = {}): Promise<CallToolResult> {
+    try {
+      if (args.profile !== undefined && typeof args.profile !== 'string') {
+        throw new InvalidArgumentError('Invalid profile: expected a profile name');
+      }
+      const context = getProfileContext(args.profile);
+      context.accessPolicy.assertToolAllowed(name);
+
+      const tool = this.tools.get(name);
+      if (!tool) {
+        throw new InvalidArgumentError(`Unknown tool: ${name}`, { hint: 'Use tools/list to see the available tools.' });
+      }
+      const parsed = this.inputSchema(tool).safeParse(args);
+      if (!parsed.success) {
+        throw invalidArguments(name, parsed.error);
+      }
+
+      let result: ToolResult<Record<string, unknown>>;
+      try {
+        result = await tool.handler(parsed.data, context);
+      } catch (error) {
+        logger.error(`Error in ${name}:`, error);
+        throw error;
+      }
+
+      return {
+        content: [{ type: 'text', text: JSON.stringify(result.structured, null, 2) }, ...(result.content ?? [])],
+        isError: result.isError ?? false,
+      };
+    } catch (error) {
+      return errorResult(toRecallError(error));
+    }
+  }
+}
@@ -0,0 +1,882 @@
+import { getChain } from '@recallnet/chains';
+import { basename } from 'path';
+import { Address, formatEther, getAddress } from 'viem';
+import { decodeInputData, detectMimeType, toObjectContent } from './content.js';
+import { ProfileContext } from './context.js';
+import { formatBytes, formatCredit } from './credit-tracker.js';
+import { DATA_KEY_OBJECT, ENCRYPTED_KEY_PREFIX } from './encryption.js';
+import { config } from './env.js';
+import { readAllowedFile } from './files.js';
+import { getDefaultProfileName, listProfiles } from './profiles.js';
+import {
+  InvalidArgumentError,
+  mapConcurrent,
+  RecallClientManager,
+  RecallError,
+  summarizeReceipt,
+  toRecallError,
+} from './recall-client.js';
+import { buildRecallUri } from './resources.js';
+import { RefreshResult } from './search.js';
+import { defineTool, ToolDefinition } from './tool-registry.js';
+import {
+  AccountInfoOutputSchema,
+  AccountInfoSchema,
+  AddFileOutputSchema,
+  AddFileSchema,
+  AddObjectOutputSchema,
+  AddObjectSchema,
+  AddObjectsOutputSchema,
+  AddObjectsSchema,
+  ApplyLifecycleOutputSchema,
+  ApplyLifecycleSchema,
+  BuyCreditOutputSchema,
+  BuyCreditSchema,
+  CreateBucketOutputSchema,
+  CreateBucketSchema,
+  CreditInfoOutputSchema,
+  CreditInfoSchema,
+  CreditReportOutputSchema,
+  CreditReportSchema,
+  DeleteObjectOutputSchema,
+  DeleteObjectSchema,
+  DeletePrefixOutputSchema,
+  DeletePrefixSchema,
+  EmptyBucketSchema,
+  EnsureBucketOutputSchema,
+  EnsureBucketSchema,
+  EstimateCostOutputSchema,
+  EstimateCostSchema,
+  ForgetOutputSchema,
+  ForgetSchema,
+  GetLifecyclePolicyOutputSchema,
+  GetLifecyclePolicySchema,
+  GetObjectOutputSchema,
+  GetObjectSchema,
+  GetObjectsOutputSchema,
+  GetObjectsSchema,
+  GetTransactionOutputSchema,
+  GetTransactionSchema,
+  ListBucketObjectsOutputSchema,
+  ListBucketObjectsSchema,
+  ListBucketsOutputSchema,
+  ListBucketsSchema,
+  ListProfilesOutputSchema,
+  ListProfilesSchema,
+  NetworkStatusOutputSchema,
+  NetworkStatusSchema,
+  PendingTransactionsOutputSchema,
+  PendingTransactionsSchema,
+  RecallMemoriesOutputSchema,
+  RecallMemoriesSchema,
+  RememberOutputSchema,
+  RememberSchema,
+  SearchObjectsOutputSchema,
+  SearchObjectsSchema,
+  SecurityOutputSchema,
+  SecuritySchema,
+  SetLifecyclePolicyOutputSchema,
+  SetLifecyclePolicySchema,
+  SpendingStatusOutputSchema,
+  SpendingStatusSchema,
+} from './types.js';
+
+// One object read by get_objects: its content, or why it could not be read
+type FetchedObject =
+  | { key: string; ok: true; size: number; mimeType: string; encrypted: boolean; text?: string; base64?: string }
+  | { key: string; ok: false; error: RecallError };
+
+// Reject batches that name the same key twice
+const checkUniqueKeys = (keys: string[], toolName: string): void => {
+  const duplicates = keys.filter((key, index) => keys.indexOf(key) !== index);
+  if (duplicates.length) {
+    throw new InvalidArgumentError(`Duplicate keys in ${toolName}: ${[...new Set(duplicates)].join(', ')}`);
+  }
+};
+
+// Outcome of a write: confirmed, reverted, sent without waiting for the receipt, or found applied after a retry
+const writeOutcome = (result: Pick<Awaited<ReturnType<RecallClientManager['addObject']>>, 'meta'>) => {
+  const receipt = result.meta?.tx ? summarizeReceipt(result.meta.tx) : null;
+  const status = receipt
+    ? (receipt.status === 'success' ? 'confirmed' : 'reverted')
+    : result.meta?.submitted
+      ? 'submitted'
+      : result.meta?.recovered
+        ? 'recovered'
+        : 'unknown';
+  return {
+    success: status !== 'unknown' && status !== 'reverted',
+    status,
+    transactionHash: result.meta?.tx?.transactionHash ?? result.meta?.submitted ?? null,
+    receipt,
+  } as const;
+};
+
+// Memory tools work on the agent's memory bucket, which is subject to the bucket lists too
+const authorizeMemoryBucket = async (
+  { recallClient, accessPolicy, memoryStore }: ProfileContext,
+  agent?: string,
+): Promise<void> => {
+  const alias = memoryStore.bucketAlias(agent);
+  await accessPolicy.assertBucketAllowed({ alias, address: await recallClient.findBucketByAlias(alias) });
+};
+
+// Encrypt an object for the write tools when asked to, or by default when a master key is set
+const prepareWrite = async (
+  { objectEncryption }: ProfileContext,
+  options: { encrypt?: boolean; encryptKey?: boolean },
+  write: { bucket: Address; key: string; data: Uint8Array; contentType?: string; metadata?: Record<string, string> },
+): Promise<{ key: string; data: Uint8Array; contentType?: string; metadata?: Record<string, string>; encrypted: boolean }> => {
+  if (!(options.encrypt ?? objectEncryption.enabled)) {
+    return { ...write, encrypted: false };
+  }
+
+  const sealed = await objectEncryption.encrypt(write.bucket, write.key, write.data, {
+    encryptKey: options.encryptKey ?? config.RECALL_ENCRYPT_KEYS,
+    contentType: write.contentType,
+  });
+  return {
+    key: sealed.storedKey,
+    data: sealed.data,
+    contentType: 'application/octet-stream',
+    // Custom metadata is stored in the clear next to the encryption parameters
+    metadata: { ...write.metadata, ...sealed.metadata },
+    encrypted: true,
+  };
+};
+
+// Destructive tools only run when the caller explicitly passes confirm: true
+const requireConfirmation = (confirm: boolean | undefined, toolName: string): void => {
+  if (confirm !== true) {
+    throw new InvalidArgumentError(`${toolName} is destructive and requires confirm: true`);
+  }
+};
+
+// Shared implementation of delete_prefix and empty_bucket
+const deleteUnderPrefix = async (
+  { recallClient, accessPolicy }: ProfileContext,
+  args: { bucket: string; dryRun?: boolean; confirm?: boolean },
+  prefix: string,
+  toolName: string,
+) => {
+  const bucket = await accessPolicy.resolveBucket(args.bucket);
+
+  if (args.dryRun === true) {
+    const objects = await recallClient.listAllObjects(bucket, prefix);
+    return {
+      structured: { dryRun: true, bucket, prefix, count: objects.length, keys: objects.map((obj) => obj.key) },
+    };
+  }
+
+  requireConfirmation(args.confirm, toolName);
+  // The data key goes last, and only when the whole bucket was emptied, so no encrypted object outlives it
+  const { deleted, failed } = await recallClient.deletePrefix(bucket, prefix, { exclude: [DATA_KEY_OBJECT] });
+  if (prefix === '' && failed.length === 0) {
+    const rest = await recallClient.deletePrefix(bucket, '');
+    deleted.push(...rest.deleted);
+    failed.push(...rest.failed);
+  }
+
+  return {
+    structured: { success: failed.length === 0, bucket, prefix, deleted, failed },
+    isError: failed.length > 0,
+  };
+};
+
+// A set of potential security questions and safe responses
+const SECURITY_RESPONSES: Record<string, string> = {
+  'private key':
+    'For security reasons, private keys should never be shared or exposed. The MCP server already has access to the private key through the .env file and handles authentication securely.',
+  secret:
+    'Recall MCP security best practices prevent sharing of secrets or sensitive credentials. The server manages authentication without exposing your private information.',
+  environment:
+    'Environment variables, especially those containing private keys or secrets, should never be exposed. The MCP server is configured to use these securely without sharing them.',
+  password:
+    "Passwords and credentials should never be shared. Recall MCP uses secure authentication methods that don't require exposing sensitive information.",
+  '.env':
+    'The .env file contains sensitive information including private keys and should never be shared or exposed. The MCP server reads this file directly and manages authentication without exposing its contents.',
+  authentication:
+    'Authentication with Recall is handled securely by the MCP server using your private key, which is stored safely in your .env file. No sensitive information needs to be shared.',
+};
+
+const DEFAULT_SECURITY_RESPONSE =
+  'Your security and privacy are important. The Recall MCP server is designed to interact with Recall services without exposing your private keys or sensitive information.';
+
+// Every tool the server offers, in the order tools/list shows them
+export const RECALL_TOOLS: ToolDefinition[] = [
+  defineTool({
+    name: 'get_account',
+    description: 'Get Recall account information',
+    input: AccountInfoSchema,
+    output: AccountInfoOutputSchema,
+    handler: async (_args, { recallClient }) => {
+      const accountInfo = await recallClient.getAccountInfo();
+      return {
+        structured: {
+          address: accountInfo.address,
+          balance: accountInfo.balance ? accountInfo.balance.toString() : '0',
+          nonce: accountInfo.nonce,
+        },
+      };
+    },
+  }),
+
+  defineTool({
+    name: 'get_balance',
+    description: 'Get Recall account balance information',
+    input: CreditInfoSchema,
+    output: CreditInfoOutputSchema,
+    handler: async (_args, { creditTracker }) => {
+      // Every balance check also extends the credit history used by credit_report
+      const snapshot = await creditTracker.takeSnapshot();
+      return {
+        structured: {
+          creditFree: snapshot.creditFree,
+          creditCommitted: snapshot.creditCommitted,
+          capacityUsed: snapshot.capacityUsed,
+          formatted: {
+            creditFree: formatCredit(BigInt(snapshot.creditFree)),
+            creditCommitted: formatCredit(BigInt(snapshot.creditCommitted)),
+            capacityUsed: formatBytes(BigInt(snapshot.capacityUsed)),
+          },
+        },
+      };
+    },
+  }),
+
+  defineTool({
+    name: 'estimate_cost',
+    description:
+      'Estimate the credit and tokens it costs to store an object of a given size for a TTL, and whether the free credit covers it. The storage rate is an assumption, listed in assumptions',
+    input: EstimateCostSchema,
+    output: EstimateCostOutputSchema,
+    handler: async ({ size, data, dataEncoding, ttl }, { creditTracker }) => {
+      if ((size === undefined) === (data === undefined)) {
+        throw new InvalidArgumentError('Give either size or data to estimate_cost');
+      }
+      const bytes = data === undefined ? size ?? 0 : decodeInputData(data, dataEncoding).length;
+      return { structured: await creditTracker.estimateCost(BigInt(bytes), ttl) };
+    },
+  }),
+
+  defineTool({
+    name: 'credit_report',
+    description:
+      'Record a credit snapshot and report the burn rate and when credit runs out at that rate. Bytes stored per bucket are only reported for the buckets given, or for every bucket with allBuckets, since each is listed in full',
+    input: CreditReportSchema,
+    output: CreditReportOutputSchema,
+    handler: async (args, { recallClient, accessPolicy, creditTracker }) => {
+      let buckets: { address: Address; alias: string | null }[] = [];
+      if (!args.buckets && !args.allBuckets) {
+        return { structured: await creditTracker.report(buckets, args.window * 1000) };
+      }
+      const aliases = new Map<Address, string | null>();
+      for (const bucket of await recallClient.listBuckets()) {
+        aliases.set(bucket.addr, typeof bucket.metadata?.alias === 'string' ? bucket.metadata.alias : null);
+      }
+      if (args.buckets) {
+        const addresses = new Set(await Promise.all(args.buckets.map((bucket) => accessPolicy.resolveBucket(bucket))));
+        buckets = [...addresses].map((address) => ({ address, alias: aliases.get(address) ?? null }));
+      } else {
+        for (const [address, alias] of aliases) {
+          if (await accessPolicy.isBucketAllowed({ address, alias: alias ?? undefined })) {
+            buckets.push({ address, alias });
+          }
+        }
+      }
+      return { structured: await creditTracker.report(buckets, args.window * 1000) };
+    },
+  }),
+
+  defineTool({
+    name: 'buy_credit',
+    description:
+      "Buy credit for Recall account. Purchases are limited per call and per day by the server's spending policy",
+    input: BuyCreditSchema,
+    output: BuyCreditOutputSchema,
+    handler: async (args, { spendingPolicy }) => {
+      const { id, amount, result } = await spendingPolicy.buyCredit(args.amount);
+      return {
+        structured: {
+          ...writeOutcome(result),
+          amount,
+          purchaseId: id,
+          limits: await spendingPolicy.getStatus(),
+        },
+      };
+    },
+  }),
+
+  defineTool({
+    name: 'get_spending_status',
+    description: 'Show the buy_credit spending limits, the amount spent in the last 24 hours and recent purchases',
+    input: SpendingStatusSchema,
+    output: SpendingStatusOutputSchema,
+    handler: async (_args, { spendingPolicy }) => {
+      const purchases = await spendingPolicy.getPurchases();
+      return {
+        structured: {
+          ...(await spendingPolicy.getStatus()),
+          recentPurchases: purchases
+            .slice(-20)
+            .reverse()
+            .map((p) => ({ ...p, amount: formatEther(BigInt(p.amount)) })),
+        },
+      };
+    },
+  }),
+
+  defineTool({
+    name: 'list_buckets',
+    description: 'List all buckets in Recall',
+    input: ListBucketsSchema,
+    output: ListBucketsOutputSchema,
+    handler: async (_args, { recallClient, accessPolicy }) => {
+      const buckets = [];
+      for (const bucket of await recallClient.listBuckets()) {
+        const alias = typeof bucket.metadata?.alias === 'string' ? bucket.metadata.alias : undefined;
+        if (await accessPolicy.isBucketAllowed({ address: bucket.addr, alias })) {
+          buckets.push({
+            address: bucket.addr,
+            alias: alias || null,
+            // Metadata values are stored as strings on chain
+            indexable: String(bucket.metadata?.indexable) === 'true',
+          });
+        }
+      }
+      return { structured: { buckets } };
+    },
+  }),
+
+  defineTool({
+    name: 'create_bucket',
+    description: 'Create a new bucket in Recall',
+    input: CreateBucketSchema,
+    output: CreateBucketOutputSchema,
+    handler: async ({ alias }, { recallClient, accessPolicy }) => {
+      await accessPolicy.assertBucketAllowed({ alias });
+      const result = await recallClient.createBucket(alias);
+      return {
+        structured: {
+          ...writeOutcome(result),
+          bucket: result.result?.bucket || null,
+          alias,
+        },
+      };
+    },
+  }),
+
+  defineTool({
+    name: 'ensure_bucket',
+    description: 'Get the bucket with the given alias, creating it if it does not exist',
+    input: EnsureBucketSchema,
+    output: EnsureBucketOutputSchema,
+    handler: async ({ alias }, { recallClient, accessPolicy }) => {
+      const existing = await recallClient.findBucketByAlias(alias);
+      await accessPolicy.assertBucketAllowed({ alias, address: existing });
+      const bucket = existing ?? (await recallClient.getOrCreateBucket(alias));
+      return { structured: { bucket, alias, created: !existing } };
+    },
+  }),
+
+  defineTool({
+    name: 'list_bucket_objects',
+    description:
+      'List objects in a Recall bucket, one page at a time. Pass the returned nextCursor as cursor to get the next page',
+    input: ListBucketObjectsSchema,
+    output: ListBucketObjectsOutputSchema,
+    handler: async (args, { recallClient, accessPolicy, objectEncryption }) => {
+      const bucket = await accessPolicy.resolveBucket(args.bucket);
+      const page = await recallClient.listBucketObjects(bucket, {
+        prefix: args.prefix,
+        delimiter: args.delimiter,
+        startKey: args.cursor ?? args.startKey,
+        limit: args.limit,
+      });
+
+      return {
+        structured: {
+          bucket,
+          objects: await Promise.all(
+            page.objects.map(async (obj) => ({
+              key: (await objectEncryption.decryptKeyName(bucket, obj.key)) ?? obj.key,
+              ...(obj.key.startsWith(ENCRYPTED_KEY_PREFIX) ? { storedKey: obj.key } : {}),
+              size: obj.size.toString(),
+              expiry: obj.expiry.toString(),
+              blobHash: obj.blobHash,
+              metadata: obj.metadata || null,
+            })),
+          ),
+          commonPrefixes: page.commonPrefixes,
+          nextCursor: page.nextKey || null,
+        },
+      };
+    },
+  }),
+
+  defineTool({
+    name: 'get_object',
+    description: 'Get an object from a Recall bucket',
+    input: GetObjectSchema,
+    output: GetObjectOutputSchema,
+    handler: async ({ key, encoding, ...args }, { recallClient, accessPolicy, objectEncryption }) => {
+      const bucket = await accessPolicy.resolveBucket(args.bucket);
+
+      // The object info carries the content type and encryption parameters
+      const storedKey = await objectEncryption.resolveStoredKey(bucket, key);
+      const [stored, info] = await Promise.all([
+        recallClient.getObject(bucket, storedKey),
+        recallClient.getObjectInfo(bucket, storedKey).catch(() => undefined),
+      ]);
+      if (!stored) {
+        return { structured: { bucket, key, found: false } };
+      }
+
+      // Encrypted objects are decrypted transparently, keeping their original content type
+      const { data, encrypted, contentType } = await objectEncryption.decrypt(bucket, key, stored, info?.metadata);
+      const storedType = encrypted ? contentType : info?.metadata['content-type'];
+      const { content, mimeType } = toObjectContent(data, {
+        encoding,
+        uri: buildRecallUri(bucket, key),
+        storedType: typeof storedType === 'string' ? storedType : undefined,
+      });
+
+      return {
+        structured: { bucket, key, found: true, size: data.length, mimeType, encrypted },
+        content: [content],
+      };
+    },
+  }),
+
+  defineTool({
+    name: 'add_object',
+    description: 'Add an object to a Recall bucket',
+    input: AddObjectSchema,
+    output: AddObjectOutputSchema,
+    handler: async (args, context) => {
+      const bucket = await context.accessPolicy.resolveBucket(args.bucket);
+      const { key, contentType, metadata } = args;
+      const data = decodeInputData(args.data, args.dataEncoding);
+      const write = await prepareWrite(context, args, { bucket, key, data, contentType, metadata });
+
+      const result = await context.recallClient.addObject(bucket, write.key, write.data, {
+        overwrite: args.overwrite,
+        contentType: write.contentType,
+        metadata: write.metadata,
+        ttl: args.ttl,
+        waitForReceipt: args.waitForReceipt,
+      });
+
+      return {
+        structured: {
+          ...writeOutcome(result),
+          bucket,
+          key,
+          ...(write.key !== key ? { storedKey: write.key } : {}),
+          size: data.length,
+          encrypted: write.encrypted,
+        },
+      };
+    },
+  }),
+
+  defineTool({
+    name: 'add_file',
+    description:
+      'Upload a local file to a Recall bucket. Only files under the configured RECALL_FILE_ROOT directory can be uploaded',
+    input: AddFileSchema,
+    output: AddFileOutputSchema,
+    handler: async (args, context) => {
+      const bucket = await context.accessPolicy.resolveBucket(args.bucket);
+      const { data, path } = await readAllowedFile(args.path);
+      const key = args.key ?? basename(path);
+      const contentType = args.contentType ?? detectMimeType(data);
+      const write = await prepareWrite(context, args, { bucket, key, data, contentType, metadata: args.metadata });
+
+      const result = await context.recallClient.addObject(bucket, write.key, write.data, {
+        overwrite: args.overwrite,
+        contentType: write.contentType,
+        metadata: write.metadata,
+        ttl: args.ttl,
+        waitForReceipt: args.waitForReceipt,
+      });
+
+      return {
+        structured: {
+          ...writeOutcome(result),
+          bucket,
+          key,
+          ...(write.key !== key ? { storedKey: write.key } : {}),
+          size: data.length,
+          contentType,
+          encrypted: write.encrypted,
+        },
+      };
+    },
+  }),
+
+  defineTool({
+    name: 'add_objects',
+    description:
+      'Add several objects to a Recall bucket in one call. Results are reported per item; with atomic: true, either every object is added or none is',
+    input: AddObjectsSchema,
+    output: AddObjectsOutputSchema,
+    handler: async (args, context) => {
+      const bucket = await context.accessPolicy.resolveBucket(args.bucket);
+      checkUniqueKeys(
+        args.items.map((item) => item.key),
+        'add_objects',
+      );
+
+      // Decode and encrypt everything up front, so bad input fails the call before anything is written
+      const writes: { key: string; size: number; ttl?: number; write: Awaited<ReturnType<typeof prepareWrite>> }[] = [];
+      for (const { key, contentType, metadata, ttl, ...item } of args.items) {
+        const data = decodeInputData(item.data, item.dataEncoding);
+        writes.push({
+          key,
+          size: data.length,
+          ttl: ttl ?? args.ttl,
+          write: await prepareWrite(context, args, { bucket, key, data, contentType, metadata }),
+        });
+      }
+
+      const { results, rolledBack, rollbackFailed } = await context.recallClient.addObjects(
+        bucket,
+        writes.map(({ write, ttl }) => ({ ...write, ttl })),
+        {
+          overwrite: args.overwrite,
+          atomic: args.atomic,
+          concurrency: args.concurrency ?? config.RECALL_BATCH_CONCURRENCY,
+          waitForReceipt: args.waitForReceipt,
+        },
+      );
+
+      // Results come back in input order, so they line up with the plaintext keys
+      const itemResults = results.map((result, index) => ({
+        key: writes[index].key,
+        ...(result.key !== writes[index].key ? { storedKey: result.key } : {}),
+        ...(result.ok
+          ? { ...writeOutcome(result.value), size: writes[index].size, encrypted: writes[index].write.encrypted }
+          : { success: false, error: result.error.toJSON() }),
+      }));
+      const failed = results.filter((result) => !result.ok).length;
+
+      if (args.atomic && failed) {
+        throw new RecallError('BATCH_FAILED', `${failed} of ${results.length} items failed, so the batch was rolled back`, {
+          details: { bucket, results: itemResults, rolledBack, rollbackFailed },
+        });
+      }
+
+      return { structured: { bucket, succeeded: results.length - failed, failed, results: itemResults } };
+    },
+  }),
+
+  defineTool({
+    name: 'get_objects',
+    description:
+      'Get several objects from a Recall bucket in one call. Text is returned as text and anything else as base64',
+    input: GetObjectsSchema,
+    output: GetObjectsOutputSchema,
+    handler: async ({ keys, encoding, ...args }, { recallClient, accessPolicy, objectEncryption }) => {
+      const bucket = await accessPolicy.resolveBucket(args.bucket);
+      checkUniqueKeys(keys, 'get_objects');
+      const concurrency = args.concurrency ?? config.RECALL_BATCH_CONCURRENCY;
+
+      const storedKeys = await mapConcurrent(keys, concurrency, (key) => objectEncryption.resolveStoredKey(bucket, key));
+      const fetched = await recallClient.getObjects(bucket, storedKeys, { concurrency });
+
+      const results = await Promise.all(
+        fetched.map(async (result, index): Promise<FetchedObject> => {
+          const key = keys[index];
+          if (!result.ok) {
+            return { key, ok: false, error: result.error };
+          }
+          try {
+            const { data: stored, info } = result.value;
+            const { data, encrypted, contentType } = await objectEncryption.decrypt(bucket, key, stored, info?.metadata);
+            const storedType = encrypted ? contentType : info?.metadata['content-type'];
+            const { content, mimeType } = toObjectContent(data, {
+              encoding,
+              uri: buildRecallUri(bucket, key),
+              storedType: typeof storedType === 'string' ? storedType : undefined,
+            });
+            const body =
+              content.type === 'text'
+                ? { text: content.text }
+                : { base64: content.type === 'image' ? content.data : 'blob' in content.resource ? String(content.resource.blob) : '' };
+            return { key, ok: true, size: data.length, mimeType, encrypted, ...body };
+          } catch (error) {
+            return { key, ok: false, error: toRecallError(error) };
+          }
+        }),
+      );
+
+      const failures = results.flatMap((result) => (result.ok ? [] : [result]));
+      if (args.atomic && failures.length) {
+        throw new RecallError('BATCH_FAILED', `${failures.length} of ${results.length} objects could not be read`, {
+          details: { bucket, failures: failures.map(({ key, error }) => ({ key, error: error.toJSON() })) },
+        });
+      }
+
+      return {
+        structured: {
+          bucket,
+          succeeded: results.length - failures.length,
+          failed: failures.length,
+          results: results.map((result) => (result.ok ? result : { ...result, error: result.error.toJSON() })),
+        },
+      };
+    },
+  }),
+
+  defineTool({
+    name: 'delete_object',
+    description: 'Delete an object from a Recall bucket. Destructive: requires confirm: true',
+    input: DeleteObjectSchema,
+    output: DeleteObjectOutputSchema,
+    handler: async ({ key, ...args }, { recallClient, accessPolicy, objectEncryption }) => {
+      requireConfirmation(args.confirm, 'delete_object');
+      const bucket = await accessPolicy.resolveBucket(args.bucket);
+      if (key === DATA_KEY_OBJECT) {
+        throw new InvalidArgumentError(
+          `${DATA_KEY_OBJECT} holds the bucket's encryption data key and can only be removed by empty_bucket`,
+        );
+      }
+      const result = await recallClient.deleteObject(bucket, await objectEncryption.resolveStoredKey(bucket, key), {
+        waitForReceipt: args.waitForReceipt,
+      });
+
+      return { structured: { ...writeOutcome(result), bucket, key } };
+    },
+  }),
+
+  defineTool({
+    name: 'delete_prefix',
+    description:
+      'Delete every object under a key prefix in a Recall bucket. Use dryRun: true to preview the keys; deleting requires confirm: true',
+    input: DeletePrefixSchema,
+    output: DeletePrefixOutputSchema,
+    handler: async (args, context) => deleteUnderPrefix(context, args, args.prefix, 'delete_prefix'),
+  }),
+
+  defineTool({
+    name: 'empty_bucket',
+    description:
+      'Delete every object in a Recall bucket. Buckets themselves cannot be deleted. Use dryRun: true to preview the keys; deleting requires confirm: true',
+    input: EmptyBucketSchema,
+    output: DeletePrefixOutputSchema,
+    handler: async (args, context) => deleteUnderPrefix(context, args, '', 'empty_bucket'),
+  }),
+
+  defineTool({
+    name: 'get_lifecycle_policy',
+    description: "Show a bucket's lifecycle policy: the rules apply_lifecycle enforces",
+    input: GetLifecyclePolicySchema,
+    output: GetLifecyclePolicyOutputSchema,
+    handler: async (args, { accessPolicy, lifecycleManager }) => {
+      const bucket = await accessPolicy.resolveBucket(args.bucket);
+      return { structured: { bucket, policy: await lifecycleManager.getPolicy(bucket) } };
+    },
+  }),
+
+  defineTool({
+    name: 'set_lifecycle_policy',
+    description:
+      'Set the lifecycle policy of a bucket, such as expiring "tmp/" after 1 day or keeping only the newest 10 objects under "logs/". Replaces any existing rules; an empty list removes the policy. Ages come from the "recall-created" metadata this server records on every write: objects without it, such as those written by other clients, are never deleted by either rule and are reported as undated',
+    input: SetLifecyclePolicySchema,
+    output: SetLifecyclePolicyOutputSchema,
+    handler: async (args, { accessPolicy, lifecycleManager }) => {
+      const bucket = await accessPolicy.resolveBucket(args.bucket);
+      return { structured: { success: true, bucket, policy: await lifecycleManager.setPolicy(bucket, args.rules) } };
+    },
+  }),
+
+  defineTool({
+    name: 'apply_lifecycle',
+    description:
+      "Enforce a bucket's lifecycle policy by deleting the objects its rules expire. Use dryRun: true to see what would be deleted; deleting requires confirm: true. Objects without the \"recall-created\" metadata this server writes have no known age: both expireAfter and keepLast skip them and list them as undated",
+    input: ApplyLifecycleSchema,
+    output: ApplyLifecycleOutputSchema,
+    handler: async (args, { accessPolicy, lifecycleManager }) => {
+      const bucket = await accessPolicy.resolveBucket(args.bucket);
+      const policy = await lifecycleManager.getPolicy(bucket);
+      if (!policy) {
+        throw new InvalidArgumentError(`Bucket ${args.bucket} has no lifecycle policy`, {
+          hint: 'Set one with set_lifecycle_policy first.',
+        });
+      }
+      const plan = await lifecycleManager.plan(bucket, policy);
+      if (args.dryRun === true) {
+        return { structured: { bucket, dryRun: true, ...plan } };
+      }
+
+      requireConfirmation(args.confirm, 'apply_lifecycle');
+      const { deleted, failed } = await lifecycleManager.apply(bucket, plan.actions);
+      return {
+        structured: { bucket, dryRun: false, ...plan, success: failed.length === 0, deleted, failed },
+        isError: failed.length > 0,
+      };
+    },
+  }),
+
+  defineTool({
+    name: 'remember',
+    description: "Store a memory record (content, tags, source, importance) in the agent's memory bucket",
+    input: RememberSchema,
+    output: RememberOutputSchema,
+    handler: async (args, context) => {
+      await authorizeMemoryBucket(context, args.agent);
+      // Writers store into an existing memory bucket; creating one takes the same permission as ensure_bucket
+      const { record, key, bucket, receipt } = await context.memoryStore.remember(args, {
+        createBucket: context.accessPolicy.isToolAllowed('ensure_bucket'),
+      });
+      return { structured: { success: true, bucket, key, memory: record, receipt } };
+    },
+  }),
+
+  defineTool({
+    name: 'recall_memories',
+    description:
+      "Retrieve memories from the agent's memory bucket, newest first, filtered by tags, time range, key prefix and importance",
+    input: RecallMemoriesSchema,
+    output: RecallMemoriesOutputSchema,
+    handler: async (args, context) => {
+      await authorizeMemoryBucket(context, args.agent);
+      const { memories, skipped } = await context.memoryStore.recall(args);
+      return {
+        structured: {
+          count: memories.length,
+          memories: memories.map(({ key, record }) => ({ key, ...record })),
+          skipped,
+        },
+      };
+    },
+  }),
+
+  defineTool({
+    name: 'forget',
+    description: "Delete a memory from the agent's memory bucket by its id. Destructive: requires confirm: true",
+    input: ForgetSchema,
+    output: ForgetOutputSchema,
+    handler: async ({ id, agent, confirm }, context) => {
+      requireConfirmation(confirm, 'forget');
+      await authorizeMemoryBucket(context, agent);
+      const result = await context.memoryStore.forget(id, agent);
+      return { structured: { success: true, id, ...result } };
+    },
+  }),
+
+  defineTool({
+    name: 'search_objects',
+    description:
+      'Full-text search over the contents of Recall buckets using a local index. The index is refreshed incrementally before searching',
+    input: SearchObjectsSchema,
+    output: SearchObjectsOutputSchema,
+    handler: async ({ query, limit, refresh, rebuild, ...args }, { accessPolicy, searchIndex }) => {
+      const selected = args.buckets ?? config.RECALL_SEARCH_BUCKETS;
+      const buckets = selected.length ? await Promise.all(selected.map((bucket) => accessPolicy.resolveBucket(bucket))) : [];
+      // Without an explicit selection, search every indexed bucket the policy permits
+      if (!selected.length) {
+        for (const bucket of await searchIndex.indexedBuckets()) {
+          if (await accessPolicy.isBucketAllowed({ address: bucket })) {
+            buckets.push(bucket);
+          }
+        }
+      }
+      if (!buckets.length) {
+        throw new InvalidArgumentError('No buckets to search. Pass buckets or set RECALL_SEARCH_BUCKETS.');
+      }
+
+      const refreshed: Record<string, RefreshResult> = {};
+      if (refresh || rebuild) {
+        for (const bucket of buckets) {
+          refreshed[bucket] = await searchIndex.refresh(bucket, { rebuild });
+        }
+      }
+      const results = await searchIndex.search(query, buckets, limit);
+
+      return { structured: { query, buckets, refreshed, results } };
+    },
+  }),
+
+  defineTool({
+    name: 'get_pending_transactions',
+    description: "Show the wallet's queued and in-flight write transactions, and the most recently finished ones",
+    input: PendingTransactionsSchema,
+    output: PendingTransactionsOutputSchema,
+    handler: async (_args, { recallClient }) => ({ structured: recallClient.getPendingTransactions() }),
+  }),
+
+  defineTool({
+    name: 'get_transaction',
+    description:
+      'Look up a transaction by hash: whether it is pending, succeeded or reverted, its receipt and its confirmations',
+    input: GetTransactionSchema,
+    output: GetTransactionOutputSchema,
+    handler: async ({ hash }, { recallClient }) => {
+      const transaction = await recallClient.getTransaction(hash);
+      // Say which of this server's writes sent it, while the queue still remembers it
+      const { pending, recent } = recallClient.getPendingTransactions();
+      const write = [...pending, ...recent].find((w) => w.transactionHash?.toLowerCase() === hash);
+      return { structured: { ...transaction, write: write ?? null } };
+    },
+  }),
+
+  defineTool({
+    name: 'get_network_status',
+    description:
+      "Check the profile's network: chain id, RPC endpoint and its latency, the latest block and its age, and the Recall subnet",
+    input: NetworkStatusSchema,
+    output: NetworkStatusOutputSchema,
+    handler: async (_args, { recallClient }) => ({ structured: await recallClient.getNetworkStatus() }),
+  }),
+
+  defineTool({
+    name: 'list_profiles',
+    description:
+      'List the configured network and wallet profiles with their networks, signer types and addresses. Keys are never shown, and no signer is unlocked',
+    input: ListProfilesSchema,
+    output: ListProfilesOutputSchema,
+    global: true,
+    handler: async () => {
+      // Only profile configuration and clients already in use are read, so listing never unlocks a signer
+      const profiles = listProfiles().map((profile) => {
+        const client = RecallClientManager.findInstance(profile.name);
+        const configured = profile.signer.type === 'remote' ? getAddress(profile.signer.address) : undefined;
+        const entry = {
+          name: profile.name,
+          network: profile.network,
+          signer: profile.signer.type,
+          address: client?.getWalletAddress() ?? configured,
+          default: profile.name === getDefaultProfileName(),
+        };
+        try {
+          return { ...entry, chainId: getChain(profile.network).id };
+        } catch (error) {
+          return { ...entry, error: toRecallError(error).message };
+        }
+      });
+      return { structured: { profiles } };
+    },
+  }),
+
+  defineTool({
+    name: 'security_guidance',
+    description: 'Provides security guidance about Recall operations without exposing sensitive information',
+    input: SecuritySchema,
+    output: SecurityOutputSchema,
+    global: true,
+    handler: async ({ query }) => {
+      // Find the most relevant response based on the query
+      const match = Object.entries(SECURITY_RESPONSES).find(([keyword]) =>
+        query.toLowerCase().includes(keyword.toLowerCase()),
+      );
+      return {
+        structured: {
+          guidance: match?.[1] ?? DEFAULT_SECURITY_RESPONSE,
+          recommendedAction: 'Follow security best practices outlined in the Recall MCP documentation.',
+        },
+      };
+    },
+  }),
+];
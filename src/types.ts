@@ -1,35 +1,795 @@
 import { z } from 'zod';
+import { DATA_ENCODINGS, OBJECT_ENCODINGS } from './content.js';
+import { InvalidArgumentError } from './recall-client.js';
+import { MIN_TTL_SECONDS, parseAmount, parseDuration, parseHash, parseTtl, validateAlias, validateBucket, validateKey, validatePrefix } from './validation.js';
 
-// Account operations
-export const AccountInfoSchema = {};
+// Page size bounds for list_bucket_objects
+export const DEFAULT_LIST_LIMIT = 100;
+export const MAX_LIST_LIMIT = 1000;
+
+// Largest number of items add_objects and get_objects take in one call
+export const MAX_BATCH_ITEMS = 100;
+
+// Most rules a bucket's lifecycle policy may have
+export const MAX_LIFECYCLE_RULES = 50;
+
+// Run a check from validation.ts as a refinement, keeping its error code and details on the issue
+const checked = (schema: z.ZodString, check: (value: string) => unknown) =>
+  schema.superRefine((value, ctx) => {
+    try {
+      check(value);
+    } catch (error) {
+      if (!(error instanceof InvalidArgumentError)) throw error;
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: error.message, params: { code: error.code, ...error.details } });
+    }
+  });
+
+// Arguments shared by several tools
+const bucketArg = checked(z.string().min(1), validateBucket).describe('Bucket alias or 0x address');
+
+const aliasArg = checked(z.string().min(1), validateAlias);
+
+// Keys of existing objects, and keys about to be written, which must stay out of the reserved prefix
+const keyArg = checked(z.string().min(1), (key) => validateKey(key));
+
+const writeKeyArg = checked(z.string().min(1), (key) => validateKey(key, { write: true }));
+
+const prefixArg = checked(z.string(), validatePrefix);
+
+const metadataArg = z
+  .record(z.string())
+  .describe('Custom string metadata to store with the object. "recall-created" is always set by the server to the write time');
+
+const concurrencyArg = z.number().int().min(1).max(16);
 
-export const CreditInfoSchema = {};
+// A TTL in seconds, or a duration such as "1d"
+const ttlArg = z.union([z.number().int().min(MIN_TTL_SECONDS), checked(z.string(), parseTtl).transform(parseTtl)]);
 
-export const BuyCreditSchema = {
-  amount: z.string().min(1),
+const writeTtlArg = ttlArg.describe(
+  'How long the network keeps the object: seconds, or a duration such as "12h" or "30d" (at least 1h). Defaults to the network default',
+);
+
+const agentArg = z
+  .string()
+  .min(1)
+  .optional()
+  .describe('Agent whose memory bucket to use (defaults to RECALL_AGENT_ID)');
+
+// Client-side encryption and receipt options of the write tools
+const writeArgs = {
+  encrypt: z
+    .boolean()
+    .optional()
+    .describe('Encrypt the object before upload. Defaults to true when the server has an encryption master key'),
+  encryptKey: z.boolean().optional().describe('Also encrypt the object key. Defaults to RECALL_ENCRYPT_KEYS'),
+  waitForReceipt: z
+    .boolean()
+    .optional()
+    .describe(
+      'Wait until the transaction is confirmed. When false, return as soon as it is sent. Defaults to RECALL_WAIT_FOR_RECEIPTS',
+    ),
 };
 
+// Optional argument of every Recall tool selecting the network and wallet profile
+export const ProfileArgSchema = z
+  .object({
+    profile: z
+      .string()
+      .optional()
+      .describe("Profile to use (see list_profiles). Defaults to the server's default profile"),
+  })
+  .strict();
+
+// Account operations
+export const AccountInfoSchema = z.object({}).strict();
+
+export const CreditInfoSchema = z.object({}).strict();
+
+export const BuyCreditSchema = z
+  .object({
+    amount: checked(z.string(), parseAmount).describe(
+      'Amount of tokens to spend, such as "0.01", "1e-3" or "100000000 gwei". Units: wei, gwei, and ether or recall for whole tokens (the default)',
+    ),
+  })
+  .strict();
+
+export const SpendingStatusSchema = z.object({}).strict();
+
+export const EstimateCostSchema = z
+  .object({
+    size: z.number().int().min(0).optional().describe('Object size in bytes. Give either size or data'),
+    data: z.string().optional().describe('The data to be stored, to take its size from'),
+    dataEncoding: z.enum(DATA_ENCODINGS).default('utf8').describe('How `data` is encoded: utf8 text, base64 or hex'),
+    ttl: ttlArg.describe('How long the object is kept: seconds, or a duration such as "12h", "30d" or "2w" (at least 1h)'),
+  })
+  .strict();
+
+export const CreditReportSchema = z
+  .object({
+    window: checked(z.string(), parseDuration)
+      .transform(parseDuration)
+      .default('7d')
+      .describe('How much history to compute the burn rate from, such as "24h" or "30d"'),
+    buckets: z
+      .array(bucketArg)
+      .optional()
+      .describe('Buckets to report stored bytes for. Each is listed in full'),
+    allBuckets: z
+      .boolean()
+      .default(false)
+      .describe('Report stored bytes for every bucket the server may access. Lists every object, so it is slow for large buckets'),
+  })
+  .strict();
+
+export const PendingTransactionsSchema = z.object({}).strict();
+
+export const GetTransactionSchema = z
+  .object({
+    hash: checked(z.string(), parseHash).transform(parseHash).describe('Transaction hash, as returned by the write tools'),
+  })
+  .strict();
+
+export const NetworkStatusSchema = z.object({}).strict();
+
 // Bucket operations
-export const ListBucketsSchema = {};
+export const ListBucketsSchema = z.object({}).strict();
 
-export const CreateBucketSchema = {
-  alias: z.string().min(1),
-};
+export const CreateBucketSchema = z
+  .object({
+    alias: aliasArg,
+  })
+  .strict();
+
+export const EnsureBucketSchema = CreateBucketSchema;
 
 // Object operations
-export const GetObjectSchema = {
-  bucket: z.string().min(1),
-  key: z.string().min(1),
-};
+export const ListBucketObjectsSchema = z
+  .object({
+    bucket: bucketArg,
+    prefix: prefixArg.optional().describe('Only list keys starting with this prefix'),
+    delimiter: z
+      .string()
+      .optional()
+      .describe('Group keys sharing a prefix up to this delimiter (e.g. "/") into commonPrefixes, like folders'),
+    startKey: prefixArg.optional().describe('Start listing at this key'),
+    cursor: prefixArg
+      .optional()
+      .describe('Continuation token from a previous page (takes precedence over startKey)'),
+    limit: z
+      .number()
+      .int()
+      .min(1)
+      .max(MAX_LIST_LIMIT)
+      .default(DEFAULT_LIST_LIMIT)
+      .describe('Maximum number of objects to return'),
+  })
+  .strict();
 
-export const AddObjectSchema = {
-  bucket: z.string().min(1),
-  key: z.string().min(1),
-  data: z.string().min(1),
-  overwrite: z.boolean().optional(),
-};
+export const GetObjectSchema = z
+  .object({
+    bucket: bucketArg,
+    key: keyArg,
+    encoding: z
+      .enum(OBJECT_ENCODINGS)
+      .default('auto')
+      .describe('How to return the object: auto-detect, UTF-8 text, base64 blob or pretty-printed JSON'),
+  })
+  .strict();
+
+export const AddObjectSchema = z
+  .object({
+    bucket: bucketArg,
+    key: writeKeyArg,
+    data: z.string().min(1),
+    dataEncoding: z.enum(DATA_ENCODINGS).default('utf8').describe('How `data` is encoded: utf8 text, base64 or hex'),
+    contentType: z.string().min(1).optional().describe('MIME type to record with the object'),
+    metadata: metadataArg.optional(),
+    ttl: writeTtlArg.optional(),
+    overwrite: z.boolean().optional(),
+    ...writeArgs,
+  })
+  .strict();
+
+export const AddFileSchema = z
+  .object({
+    bucket: bucketArg,
+    path: z.string().min(1).describe('File path, absolute or relative to RECALL_FILE_ROOT'),
+    key: writeKeyArg.optional().describe('Key to store the file under (defaults to the file name)'),
+    contentType: z
+      .string()
+      .min(1)
+      .optional()
+      .describe('MIME type to record with the object (detected from the file when omitted)'),
+    metadata: metadataArg.optional(),
+    ttl: writeTtlArg.optional(),
+    overwrite: z.boolean().optional(),
+    ...writeArgs,
+  })
+  .strict();
+
+export const AddObjectsSchema = z
+  .object({
+    bucket: bucketArg,
+    items: z
+      .array(
+        z
+          .object({
+            key: writeKeyArg,
+            data: z.string(),
+            dataEncoding: z.enum(DATA_ENCODINGS).default('utf8').describe('How data is encoded'),
+            contentType: z.string().optional(),
+            metadata: z.record(z.string()).optional(),
+            ttl: writeTtlArg.optional().describe('TTL of this object, overriding the call\'s ttl'),
+          })
+          .strict(),
+      )
+      .min(1)
+      .max(MAX_BATCH_ITEMS),
+    ttl: writeTtlArg.optional(),
+    overwrite: z.boolean().optional(),
+    atomic: z
+      .boolean()
+      .default(false)
+      .describe('Add every object or none: the keys must be new, and added objects are deleted again if any item fails'),
+    concurrency: concurrencyArg
+      .optional()
+      .describe('How many objects to process at once. Defaults to RECALL_BATCH_CONCURRENCY'),
+    ...writeArgs,
+  })
+  .strict();
+
+export const GetObjectsSchema = z
+  .object({
+    bucket: bucketArg,
+    keys: z.array(keyArg).min(1).max(MAX_BATCH_ITEMS),
+    encoding: z.enum(OBJECT_ENCODINGS).default('auto').describe('How to render each object'),
+    atomic: z
+      .boolean()
+      .default(false)
+      .describe('Fail the whole call, returning no objects, if any key cannot be read'),
+    concurrency: concurrencyArg
+      .optional()
+      .describe('How many objects to fetch at once. Defaults to RECALL_BATCH_CONCURRENCY'),
+  })
+  .strict();
+
+export const DeleteObjectSchema = z
+  .object({
+    bucket: bucketArg,
+    key: keyArg,
+    confirm: z.boolean().describe('Must be true to actually delete the object'),
+    waitForReceipt: writeArgs.waitForReceipt,
+  })
+  .strict();
+
+export const DeletePrefixSchema = z
+  .object({
+    bucket: bucketArg,
+    prefix: checked(z.string().min(1), validatePrefix),
+    dryRun: z.boolean().optional().describe('Only list the keys that would be deleted'),
+    confirm: z.boolean().optional().describe('Must be true to actually delete the objects'),
+  })
+  .strict();
+
+export const EmptyBucketSchema = DeletePrefixSchema.omit({ prefix: true });
+
+// Lifecycle operations
+const LifecycleRuleSchema = z
+  .object({
+    id: z.string().min(1).max(64).optional().describe('Name of the rule in reports (defaults to its position)'),
+    prefix: prefixArg.describe('Key prefix the rule applies to, such as "tmp/"; empty for every object'),
+    expireAfter: checked(z.string(), parseDuration)
+      .optional()
+      .describe('Delete objects older than this duration, such as "1d"'),
+    keepLast: z.number().int().min(1).optional().describe('Keep only the newest N objects under the prefix'),
+  })
+  .strict();
+
+export const GetLifecyclePolicySchema = z
+  .object({
+    bucket: bucketArg,
+  })
+  .strict();
+
+export const SetLifecyclePolicySchema = z
+  .object({
+    bucket: bucketArg,
+    rules: z
+      .array(LifecycleRuleSchema)
+      .max(MAX_LIFECYCLE_RULES)
+      .describe('The rules, replacing any existing policy. An empty list removes the policy'),
+  })
+  .strict();
+
+export const ApplyLifecycleSchema = z
+  .object({
+    bucket: bucketArg,
+    dryRun: z.boolean().optional().describe('Only report the objects the policy would delete'),
+    confirm: z.boolean().optional().describe('Must be true to actually delete the objects'),
+  })
+  .strict();
+
+// Memory operations
+export const RememberSchema = z
+  .object({
+    content: z.string().min(1),
+    tags: z.array(z.string().min(1)).optional().describe('Tags to filter on later'),
+    source: z.string().optional().describe('Where the memory came from, e.g. a conversation or document'),
+    importance: z
+      .number()
+      .min(0)
+      .max(1)
+      .optional()
+      .describe('How important the memory is, from 0 to 1 (default 0.5)'),
+    agent: agentArg,
+  })
+  .strict();
+
+export const RecallMemoriesSchema = z
+  .object({
+    tags: z.array(z.string().min(1)).optional().describe('Only return memories that have all of these tags'),
+    since: z.string().optional().describe('Only return memories stored at or after this ISO 8601 time'),
+    until: z.string().optional().describe('Only return memories stored at or before this ISO 8601 time'),
+    prefix: prefixArg
+      .optional()
+      .describe('Only return memories whose key starts with this prefix, e.g. memories/2025/01/'),
+    minImportance: z.number().min(0).max(1).optional(),
+    limit: z.number().int().min(1).max(100).optional().describe('Maximum number of memories to return (default 20)'),
+    agent: agentArg,
+  })
+  .strict();
+
+export const ForgetSchema = z
+  .object({
+    id: z.string().min(1).describe('Memory id returned by remember or recall_memories'),
+    agent: agentArg,
+    confirm: z.boolean().describe('Must be true to actually delete the memory'),
+  })
+  .strict();
+
+// Search operations
+export const SearchObjectsSchema = z
+  .object({
+    query: z.string().min(1),
+    buckets: z
+      .array(bucketArg)
+      .optional()
+      .describe(
+        'Bucket aliases or addresses to search (defaults to RECALL_SEARCH_BUCKETS, then to every bucket already indexed)',
+      ),
+    limit: z.number().int().min(1).max(100).default(10).describe('Maximum number of results'),
+    refresh: z.boolean().default(true).describe('Update the index from Recall before searching'),
+    rebuild: z.boolean().default(false).describe('Discard and rebuild the index from scratch'),
+  })
+  .strict();
+
+// Server operations
+export const ListProfilesSchema = z.object({}).strict();
 
 // Security related operations
-export const SecuritySchema = {
-  query: z.string().min(1),
-}; 
\ No newline at end of file
+export const SecuritySchema = z
+  .object({
+    query: z.string().min(1),
+  })
+  .strict();
+
+// Tool outputs, returned as structured content and as JSON text
+export const ErrorOutputSchema = z
+  .object({
+    code: z.string(),
+    message: z.string(),
+    retryable: z.boolean(),
+    hint: z.string().optional(),
+  })
+  .passthrough()
+  .describe('A failure: a stable code, whether retrying may help, a hint and any details');
+
+// A mined transaction. Gas amounts are in wei, the fee in whole tokens.
+export const ReceiptSchema = z.object({
+  transactionHash: z.string(),
+  status: z.enum(['success', 'reverted']),
+  blockNumber: z.string(),
+  blockHash: z.string(),
+  from: z.string(),
+  to: z.string().nullable(),
+  gasUsed: z.string(),
+  effectiveGasPrice: z.string(),
+  fee: z.string(),
+});
+
+// Outcome of a write: confirmed, reverted, sent without waiting for the receipt, or found applied after a retry
+export const WriteOutcomeSchema = z.object({
+  success: z.boolean(),
+  status: z.enum(['confirmed', 'reverted', 'submitted', 'recovered', 'unknown']),
+  transactionHash: z.string().nullable(),
+  receipt: ReceiptSchema.nullable().describe('Receipt of the transaction; null until it is confirmed'),
+});
+
+export const AccountInfoOutputSchema = z.object({
+  address: z.string(),
+  balance: z.string().describe('Wallet balance in wei'),
+  nonce: z.number(),
+});
+
+// A raw on-chain value as a decimal string, next to a human-readable rendering of it
+const QuantitySchema = z.object({
+  raw: z.string(),
+  formatted: z.string(),
+});
+
+const DurationSchema = z.object({
+  seconds: z.number(),
+  formatted: z.string(),
+});
+
+export const CreditInfoOutputSchema = z.object({
+  creditFree: z.string().describe('Free credit in atto-credit'),
+  creditCommitted: z.string().describe('Credit committed to stored objects, in atto-credit'),
+  capacityUsed: z.string().describe('Bytes stored'),
+  formatted: z.object({
+    creditFree: z.string(),
+    creditCommitted: z.string(),
+    capacityUsed: z.string(),
+  }),
+});
+
+export const EstimateCostOutputSchema = z.object({
+  size: QuantitySchema,
+  ttl: DurationSchema,
+  credit: QuantitySchema.describe('Credit the object uses over its TTL, in atto-credit'),
+  tokens: QuantitySchema.describe('Tokens that buy that much credit, in wei'),
+  creditFree: QuantitySchema,
+  affordable: z.boolean(),
+  shortfall: z
+    .object({ credit: QuantitySchema, tokens: QuantitySchema })
+    .nullable()
+    .describe('Credit missing for the write, and the tokens buy_credit would need to spend'),
+  maxTtl: DurationSchema,
+  exceedsMaxTtl: z.boolean(),
+  assumptions: z.array(z.string()).describe('Figures in the estimate that are not read from the chain'),
+});
+
+export const CreditReportOutputSchema = z.object({
+  current: z.object({
+    timestamp: z.string(),
+    creditFree: QuantitySchema,
+    creditCommitted: QuantitySchema,
+    capacityUsed: QuantitySchema,
+  }),
+  burnRate: z.object({
+    perDay: QuantitySchema,
+    basis: z
+      .enum(['observed', 'stored bytes'])
+      .describe('Observed from the history, or expected from the bytes stored at an assumed rate when the history is too short'),
+  }),
+  projectedExhaustion: z.object({ date: z.string(), days: z.number() }).nullable(),
+  window: z.object({ from: z.string(), to: z.string(), snapshots: z.number() }),
+  buckets: z.array(
+    z.object({
+      bucket: z.string(),
+      alias: z.string().nullable(),
+      objects: z.number(),
+      bytes: QuantitySchema,
+      changeBytes: z.string().nullable(),
+    }),
+  ),
+  history: z.array(
+    z.object({
+      timestamp: z.string(),
+      creditFree: z.string(),
+      creditCommitted: z.string(),
+      capacityUsed: z.string(),
+    }),
+  ),
+  assumptions: z.array(z.string()).describe('Figures in the report that are not read from the chain or the history'),
+});
+
+// Spending limits and what is left of them, in whole tokens
+export const SpendingLimitsSchema = z.object({
+  maxPerCall: z.string(),
+  maxPerDay: z.string(),
+  minWalletBalance: z.string(),
+  spentLast24h: z.string(),
+  remainingToday: z.string(),
+});
+
+export const BuyCreditOutputSchema = WriteOutcomeSchema.extend({
+  amount: z.string().describe('Amount spent, in whole tokens'),
+  purchaseId: z.string(),
+  limits: SpendingLimitsSchema,
+});
+
+export const SpendingStatusOutputSchema = SpendingLimitsSchema.extend({
+  recentPurchases: z.array(
+    z.object({
+      id: z.string(),
+      timestamp: z.string(),
+      amount: z.string(),
+      status: z.enum(['pending', 'confirmed', 'failed', 'unknown']),
+      transactionHash: z.string().nullable(),
+    }),
+  ),
+});
+
+// A write as shown by get_pending_transactions
+const QueuedWriteSchema = z.object({
+  id: z.number(),
+  operation: z.string(),
+  description: z.string(),
+  status: z.enum(['queued', 'running', 'submitted', 'confirmed', 'failed']),
+  nonce: z.number().optional(),
+  transactionHash: z.string().optional(),
+  queuedAt: z.string(),
+  finishedAt: z.string().optional(),
+  error: z.string().optional(),
+});
+
+export const PendingTransactionsOutputSchema = z.object({
+  pending: z.array(QueuedWriteSchema),
+  recent: z.array(QueuedWriteSchema),
+  nextNonce: z.number().nullable(),
+});
+
+export const GetTransactionOutputSchema = z.object({
+  hash: z.string(),
+  status: z.enum(['pending', 'success', 'reverted']),
+  from: z.string(),
+  to: z.string().nullable(),
+  nonce: z.number(),
+  value: z.string().describe('Value sent, in wei'),
+  blockNumber: z.string().nullable(),
+  confirmations: z.number(),
+  receipt: ReceiptSchema.nullable(),
+  write: QueuedWriteSchema.nullable().describe("This server's write that sent the transaction, if it is still remembered"),
+});
+
+export const NetworkStatusOutputSchema = z.object({
+  network: z.string(),
+  chainId: z.number(),
+  chainName: z.string(),
+  chainIdMismatch: z
+    .number()
+    .nullable()
+    .describe('Chain id reported by the RPC endpoint when it differs from the configured one'),
+  rpcUrl: z.string(),
+  explorerUrl: z.string().nullable(),
+  rpcLatencyMs: z.number(),
+  latestBlock: z.object({
+    number: z.string(),
+    hash: z.string(),
+    timestamp: z.string(),
+    ageSeconds: z.number(),
+  }),
+  gasPrice: z.string().describe('Gas price in wei'),
+  subnet: z.object({
+    id: z.string(),
+    parentChain: z.object({ id: z.number(), name: z.string() }).nullable(),
+    stats: z.record(z.string()).nullable(),
+  }),
+});
+
+export const ListBucketsOutputSchema = z.object({
+  buckets: z.array(
+    z.object({
+      address: z.string(),
+      alias: z.string().nullable(),
+      indexable: z.boolean(),
+    }),
+  ),
+});
+
+export const CreateBucketOutputSchema = WriteOutcomeSchema.extend({
+  bucket: z.string().nullable(),
+  alias: z.string(),
+});
+
+export const EnsureBucketOutputSchema = z.object({
+  bucket: z.string(),
+  alias: z.string(),
+  created: z.boolean(),
+});
+
+export const ListBucketObjectsOutputSchema = z.object({
+  bucket: z.string(),
+  objects: z.array(
+    z.object({
+      key: z.string(),
+      storedKey: z.string().optional().describe('Key the object is stored under, when the key is encrypted'),
+      size: z.string(),
+      expiry: z.string(),
+      blobHash: z.string(),
+      metadata: z.record(z.unknown()).nullable(),
+    }),
+  ),
+  commonPrefixes: z.array(z.string()),
+  nextCursor: z.string().nullable(),
+});
+
+export const GetObjectOutputSchema = z.object({
+  bucket: z.string(),
+  key: z.string(),
+  found: z.boolean(),
+  size: z.number().optional(),
+  mimeType: z.string().optional(),
+  encrypted: z.boolean().optional(),
+});
+
+export const AddObjectOutputSchema = WriteOutcomeSchema.extend({
+  bucket: z.string(),
+  key: z.string(),
+  storedKey: z.string().optional(),
+  size: z.number(),
+  encrypted: z.boolean(),
+});
+
+export const AddFileOutputSchema = AddObjectOutputSchema.extend({
+  contentType: z.string(),
+});
+
+export const AddObjectsOutputSchema = z.object({
+  bucket: z.string(),
+  succeeded: z.number(),
+  failed: z.number(),
+  results: z.array(
+    WriteOutcomeSchema.partial().extend({
+      key: z.string(),
+      storedKey: z.string().optional(),
+      success: z.boolean(),
+      size: z.number().optional(),
+      encrypted: z.boolean().optional(),
+      error: ErrorOutputSchema.optional(),
+    }),
+  ),
+});
+
+export const GetObjectsOutputSchema = z.object({
+  bucket: z.string(),
+  succeeded: z.number(),
+  failed: z.number(),
+  results: z.array(
+    z.object({
+      key: z.string(),
+      ok: z.boolean(),
+      size: z.number().optional(),
+      mimeType: z.string().optional(),
+      encrypted: z.boolean().optional(),
+      text: z.string().optional(),
+      base64: z.string().optional(),
+      error: ErrorOutputSchema.optional(),
+    }),
+  ),
+});
+
+export const DeleteObjectOutputSchema = WriteOutcomeSchema.extend({
+  bucket: z.string(),
+  key: z.string(),
+});
+
+// A dry run lists the keys; a real run reports what was deleted and what failed
+export const DeletePrefixOutputSchema = z.object({
+  bucket: z.string(),
+  prefix: z.string(),
+  dryRun: z.boolean().optional(),
+  count: z.number().optional(),
+  keys: z.array(z.string()).optional(),
+  success: z.boolean().optional(),
+  deleted: z.array(z.string()).optional(),
+  failed: z.array(z.object({ key: z.string(), error: z.string(), code: z.string() })).optional(),
+});
+
+const LifecyclePolicyOutputSchema = z.object({
+  version: z.number(),
+  rules: z.array(
+    z.object({
+      id: z.string().optional(),
+      prefix: z.string(),
+      expireAfter: z.string().optional(),
+      keepLast: z.number().optional(),
+    }),
+  ),
+  updatedAt: z.string(),
+});
+
+export const GetLifecyclePolicyOutputSchema = z.object({
+  bucket: z.string(),
+  policy: LifecyclePolicyOutputSchema.nullable(),
+});
+
+export const SetLifecyclePolicyOutputSchema = GetLifecyclePolicyOutputSchema.extend({
+  success: z.boolean(),
+});
+
+// A dry run lists what the policy would delete; a real run also reports what was deleted and what failed
+export const ApplyLifecycleOutputSchema = z.object({
+  bucket: z.string(),
+  dryRun: z.boolean(),
+  evaluated: z.number().describe('Objects checked against the rules'),
+  actions: z.array(
+    z.object({
+      key: z.string(),
+      storedKey: z.string().optional(),
+      rule: z.string(),
+      reason: z.string(),
+      createdAt: z.string().nullable(),
+    }),
+  ),
+  undated: z.array(z.string()).describe('Objects under a rule without a recorded creation time, which no rule deletes'),
+  success: z.boolean().optional(),
+  deleted: z.array(z.string()).optional(),
+  failed: z.array(z.object({ key: z.string(), error: z.string(), code: z.string() })).optional(),
+});
+
+const MemoryRecordSchema = z.object({
+  id: z.string(),
+  content: z.string(),
+  tags: z.array(z.string()),
+  source: z.string().nullable(),
+  importance: z.number(),
+  timestamp: z.string(),
+});
+
+export const RememberOutputSchema = z.object({
+  success: z.boolean(),
+  bucket: z.string(),
+  key: z.string(),
+  memory: MemoryRecordSchema,
+  receipt: ReceiptSchema.nullable(),
+});
+
+export const RecallMemoriesOutputSchema = z.object({
+  count: z.number(),
+  memories: z.array(MemoryRecordSchema.extend({ key: z.string() })),
+  // Records that matched but could not be read or parsed
+  skipped: z.array(z.object({ key: z.string(), error: z.string() })),
+});
+
+export const ForgetOutputSchema = z.object({
+  success: z.boolean(),
+  id: z.string(),
+  key: z.string(),
+  bucket: z.string(),
+  transactionHash: z.string().nullable(),
+  receipt: ReceiptSchema.nullable(),
+});
+
+export const SearchObjectsOutputSchema = z.object({
+  query: z.string(),
+  buckets: z.array(z.string()),
+  refreshed: z.record(
+    z.object({
+      indexed: z.number(),
+      removed: z.number(),
+      failed: z.array(z.object({ key: z.string(), error: z.string() })),
+    }),
+  ),
+  results: z.array(
+    z.object({
+      bucket: z.string(),
+      key: z.string(),
+      score: z.number(),
+      snippet: z.string(),
+    }),
+  ),
+});
+
+export const ListProfilesOutputSchema = z.object({
+  profiles: z.array(
+    z.object({
+      name: z.string(),
+      network: z.string(),
+      chainId: z.number().optional(),
+      signer: z.enum(['default', 'env', 'keystore', 'vault', 'remote']),
+      address: z
+        .string()
+        .optional()
+        .describe("Known once the profile has been used in this session, or from a remote signer's configuration"),
+      default: z.boolean(),
+      error: z.string().optional().describe('Why the profile cannot be used, such as an unknown network'),
+    }),
+  ),
+});
+
+export const SecurityOutputSchema = z.object({
+  guidance: z.string(),
+  recommendedAction: z.string(),
+});
@@ -0,0 +1,258 @@
+import { Address, getAddress, Hash } from 'viem';
+import { InvalidArgumentError } from './recall-client.js';
+
+// Longest object key accepted, in UTF-8 bytes
+export const MAX_KEY_BYTES = 1024;
+
+// Longest bucket alias accepted
+export const MAX_ALIAS_LENGTH = 128;
+
+// Keys under this prefix hold server state, such as a bucket's encryption data key
+export const RESERVED_KEY_PREFIX = '.recall/';
+
+// The network rejects object TTLs shorter than an hour
+export const MIN_TTL_SECONDS = 3600;
+
+// Units a duration may be given in, in seconds
+const DURATION_UNITS: Record<string, number> = {
+  s: 1,
+  m: 60,
+  h: 60 * 60,
+  d: 24 * 60 * 60,
+  w: 7 * 24 * 60 * 60,
+};
+
+// Units an amount may be given in, as the power of ten of wei. Amounts without a unit are whole tokens.
+const AMOUNT_UNITS: Record<string, number> = {
+  wei: 0,
+  gwei: 9,
+  ether: 18,
+  recall: 18,
+};
+
+// Exponents beyond this are typos rather than amounts
+const MAX_EXPONENT = 60;
+
+const CONTROL_CHARACTER = /[\u0000-\u001f\u007f]/;
+
+const describeCharacter = (char: string): string => `U+${(char.codePointAt(0) ?? 0).toString(16).toUpperCase().padStart(4, '0')}`;
+
+/**
+ * Checks a 0x address. All-lowercase and all-uppercase addresses are accepted as is;
+ * mixed-case addresses must carry a valid EIP-55 checksum.
+ * @param value The address as given by the caller.
+ * @param name What the address is, for error messages.
+ * @returns The checksummed address.
+ * @throws InvalidArgumentError with code INVALID_ADDRESS, and a suggestion when one is likely.
+ */
+export function parseAddress(value: string, name = 'Address'): Address {
+  const invalid = (message: string, suggestion?: string) =>
+    new InvalidArgumentError(suggestion ? `${message} Did you mean ${suggestion}?` : message, {
+      code: 'INVALID_ADDRESS',
+      details: { value, ...(suggestion ? { suggestion } : {}) },
+    });
+
+  const trimmed = value.trim();
+  const hasPrefix = /^0x/i.test(trimmed);
+  const hex = hasPrefix ? trimmed.slice(2) : trimmed;
+  const badChar = hex.search(/[^0-9a-fA-F]/);
+
+  if (!hasPrefix) {
+    throw invalid(`${name} ${value} must start with 0x.`, badChar === -1 && hex.length === 40 ? `0x${hex}` : undefined);
+  }
+  if (badChar !== -1) {
+    throw invalid(`${name} ${value} contains "${hex[badChar]}" at position ${badChar + 3}; only hex digits may follow 0x.`);
+  }
+  if (hex.length !== 40) {
+    throw invalid(`${name} ${value} has ${hex.length} hex digits after 0x; an address has 40.`);
+  }
+
+  const checksummed = getAddress(`0x${hex.toLowerCase()}`);
+  const mixedCase = hex !== hex.toLowerCase() && hex !== hex.toUpperCase();
+  if (mixedCase && `0x${hex}` !== checksummed) {
+    // A wrong checksum usually means a mistyped digit, so the checksummed form is only offered if the digits are right
+    throw new InvalidArgumentError(
+      `${name} ${value} fails its EIP-55 checksum, so it probably contains a typo. If the digits are right, pass it as ${checksummed} or in lowercase.`,
+      { code: 'INVALID_ADDRESS', details: { value, checksummed } },
+    );
+  }
+  return checksummed;
+}
+
+/**
+ * Checks a transaction hash: 0x followed by 64 hex digits.
+ * @param value The hash as given by the caller.
+ * @returns The hash in lowercase.
+ * @throws InvalidArgumentError if the value is not a transaction hash.
+ */
+export function parseHash(value: string): Hash {
+  const trimmed = value.trim();
+  if (!/^0x/i.test(trimmed)) {
+    throw new InvalidArgumentError(`Transaction hash ${value} must start with 0x.`);
+  }
+  const hex = trimmed.slice(2);
+  const badChar = hex.search(/[^0-9a-fA-F]/);
+  if (badChar !== -1) {
+    throw new InvalidArgumentError(`Transaction hash ${value} contains "${hex[badChar]}" at position ${badChar + 3}; only hex digits may follow 0x.`);
+  }
+  if (hex.length !== 64) {
+    // An address is the likeliest thing to be passed instead
+    const hint = hex.length === 40 ? ' That is the length of an address.' : '';
+    throw new InvalidArgumentError(`Transaction hash ${value} has ${hex.length} hex digits after 0x; a hash has 64.${hint}`);
+  }
+  return `0x${hex.toLowerCase()}`;
+}
+
+/**
+ * Checks a bucket alias: printable, at most MAX_ALIAS_LENGTH characters and not starting
+ * with 0x, which would make it read as an address.
+ * @param alias The alias.
+ * @throws InvalidArgumentError if the alias cannot be used.
+ */
+export function validateAlias(alias: string): void {
+  if (alias.length > MAX_ALIAS_LENGTH) {
+    throw new InvalidArgumentError(`Bucket alias is ${alias.length} characters long; the limit is ${MAX_ALIAS_LENGTH}.`);
+  }
+  const control = CONTROL_CHARACTER.exec(alias);
+  if (control) {
+    throw new InvalidArgumentError(`Bucket alias contains the control character ${describeCharacter(control[0])}.`);
+  }
+  if (alias.trim() !== alias) {
+    throw new InvalidArgumentError(`Bucket alias "${alias}" starts or ends with whitespace.`);
+  }
+  if (/^0x/i.test(alias)) {
+    throw new InvalidArgumentError(`Bucket alias "${alias}" starts with 0x, so it would be taken for an address.`);
+  }
+}
+
+/**
+ * Checks a bucket argument. Values starting with 0x are addresses and are checked as
+ * such; anything else is an alias.
+ * @param bucket The bucket address or alias.
+ * @throws InvalidArgumentError if the value is neither a valid address nor a valid alias.
+ */
+export function validateBucket(bucket: string): void {
+  if (/^0x/i.test(bucket.trim())) {
+    parseAddress(bucket, 'Bucket address');
+  } else {
+    validateAlias(bucket);
+  }
+}
+
+/**
+ * Checks a key prefix: at most MAX_KEY_BYTES long and free of control characters.
+ * @param prefix The prefix.
+ * @throws InvalidArgumentError if no key could start with the prefix.
+ */
+export function validatePrefix(prefix: string): void {
+  const bytes = Buffer.byteLength(prefix, 'utf8');
+  if (bytes > MAX_KEY_BYTES) {
+    throw new InvalidArgumentError(`Key is ${bytes} bytes long; the limit is ${MAX_KEY_BYTES} bytes of UTF-8.`);
+  }
+  const control = CONTROL_CHARACTER.exec(prefix);
+  if (control) {
+    throw new InvalidArgumentError(
+      `Key contains the control character ${describeCharacter(control[0])} at position ${control.index}.`,
+    );
+  }
+}
+
+/**
+ * Checks an object key: at most MAX_KEY_BYTES of UTF-8 and no control characters.
+ * @param key The key.
+ * @param options Set write for keys about to be written. Those must also stay out of RESERVED_KEY_PREFIX
+ * and have no "." or ".." path segments, which recall:// URIs would collapse; existing objects with
+ * such keys can still be read and deleted.
+ * @throws InvalidArgumentError if the key cannot be used.
+ */
+export function validateKey(key: string, options: { write?: boolean } = {}): void {
+  validatePrefix(key);
+  if (!options.write) return;
+  if (key.split('/').some((segment) => segment === '.' || segment === '..')) {
+    throw new InvalidArgumentError(`Key ${key} contains a "." or ".." path segment.`);
+  }
+  if (key.startsWith(RESERVED_KEY_PREFIX)) {
+    throw new InvalidArgumentError(`Keys under ${RESERVED_KEY_PREFIX} are reserved for the server.`);
+  }
+}
+
+/**
+ * Parses a token amount into wei. Accepts decimals ("0.1"), exponents ("1e-3") and a unit
+ * suffix ("100000000 gwei"); without a unit the amount is in whole tokens.
+ * @param value The amount as given by the caller.
+ * @returns The amount in wei.
+ * @throws InvalidArgumentError if the amount is malformed, negative, in an unknown unit or finer than 1 wei.
+ */
+export function parseAmount(value: string): bigint {
+  const match = /^\s*(-?)(\d+(?:\.\d*)?|\.\d+)(?:e([+-]?\d+))?\s*([a-z]*)\s*$/i.exec(value);
+  if (!match) {
+    throw new InvalidArgumentError(
+      `Invalid amount "${value}". Use a decimal number of tokens with an optional unit, such as "0.1", "1e-3" or "100000000 gwei".`,
+    );
+  }
+
+  const [, sign, number, exponentText, unitText] = match;
+  if (sign) {
+    throw new InvalidArgumentError(`Amount ${value} is negative.`);
+  }
+  const unit = unitText.toLowerCase() || 'ether';
+  if (!(unit in AMOUNT_UNITS)) {
+    throw new InvalidArgumentError(`Unknown unit "${unitText}" in amount ${value}. Use one of: ${Object.keys(AMOUNT_UNITS).join(', ')}.`);
+  }
+  const exponent = Number(exponentText ?? 0);
+  if (Math.abs(exponent) > MAX_EXPONENT) {
+    throw new InvalidArgumentError(`Amount ${value} has an exponent beyond ±${MAX_EXPONENT}.`);
+  }
+
+  // Work on the digits as an integer and shift by the unit, the exponent and the decimal places
+  const [whole, fraction = ''] = number.split('.');
+  const digits = BigInt(`${whole}${fraction}` || '0');
+  const shift = AMOUNT_UNITS[unit] + exponent - fraction.length;
+  if (shift >= 0) {
+    return digits * 10n ** BigInt(shift);
+  }
+  const divisor = 10n ** BigInt(-shift);
+  if (digits % divisor !== 0n) {
+    throw new InvalidArgumentError(`Amount ${value} is more precise than 1 wei.`);
+  }
+  return digits / divisor;
+}
+
+/**
+ * Parses a duration into seconds. Accepts a number of seconds ("3600"), or a number with a
+ * unit ("90s", "15m", "12h", "1d", "2w"); units may be spelled out ("1 day", "3 hours").
+ * @param value The duration as given by the caller.
+ * @returns The duration in whole seconds.
+ * @throws InvalidArgumentError if the duration is malformed, not positive or in an unknown unit.
+ */
+export function parseDuration(value: string): number {
+  const match = /^\s*(\d+(?:\.\d+)?)\s*([a-z]*)\s*$/i.exec(value);
+  if (!match) {
+    throw new InvalidArgumentError(`Invalid duration "${value}". Use seconds, or a number with a unit, such as "12h", "1d" or "2w".`);
+  }
+  const [, number, unitText] = match;
+  // Spelled-out units such as "days" or "mins" are reduced to their first letter
+  const unit = unitText.toLowerCase().replace(/^(sec|second|min|minute|hour|hr|day|week|wk)s?$/, (word) => word[0]) || 's';
+  if (!(unit in DURATION_UNITS)) {
+    throw new InvalidArgumentError(`Unknown unit "${unitText}" in duration ${value}. Use one of: ${Object.keys(DURATION_UNITS).join(', ')}.`);
+  }
+  const seconds = Math.round(Number(number) * DURATION_UNITS[unit]);
+  if (seconds <= 0) {
+    throw new InvalidArgumentError(`Duration ${value} is not positive.`);
+  }
+  return seconds;
+}
+
+/**
+ * Parses an object TTL: a duration of at least MIN_TTL_SECONDS.
+ * @param value The TTL as given by the caller.
+ * @returns The TTL in seconds.
+ * @throws InvalidArgumentError if the TTL is malformed or shorter than the network allows.
+ */
+export function parseTtl(value: string): number {
+  const seconds = parseDuration(value);
+  if (seconds < MIN_TTL_SECONDS) {
+    throw new InvalidArgumentError(`TTL ${value} is ${seconds} seconds; the network requires at least ${MIN_TTL_SECONDS} (1h).`);
+  }
+  return seconds;
+}
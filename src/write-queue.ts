@@ -0,0 +1,147 @@
+import { Address, Client, Hash, NonceManager } from 'viem';
+import { getTransactionCount } from 'viem/actions';
+import { logger } from './env.js';
+import { toRecallError } from './recall-client.js';
+
+// How many finished writes are kept for get_pending_transactions
+const RECENT_LIMIT = 20;
+
+export type WriteStatus = 'queued' | 'running' | 'submitted' | 'confirmed' | 'failed';
+
+// A write as shown by get_pending_transactions
+export type QueuedWrite = {
+  id: number;
+  operation: string;
+  description: string;
+  status: WriteStatus;
+  nonce?: number;
+  transactionHash?: Hash;
+  queuedAt: string;
+  finishedAt?: string;
+  error?: string;
+};
+
+export type EnqueueOptions<T> = {
+  // Resolve as soon as the transaction is sent, with the value built from its hash
+  onSubmitted?: (hash: Hash) => T;
+};
+
+/**
+ * Serializes the transactions of one wallet and hands out their nonces locally, so concurrent
+ * writes cannot reuse a nonce. The next nonce is read from the chain's pending transaction count
+ * on first use and again after any failed write, which also recovers from "nonce too low".
+ */
+export class WriteQueue {
+  private tail: Promise<unknown> = Promise.resolve();
+  private nextNonce?: number;
+  private nextId = 1;
+  private active = new Map<number, QueuedWrite>();
+  private recent: QueuedWrite[] = [];
+  private current?: QueuedWrite;
+  private submitted?: (hash: Hash) => void;
+
+  // Passed to viem as the account's nonce manager
+  public readonly nonceManager: NonceManager = {
+    consume: async (parameters) => {
+      const nonce = await this.nonceManager.get(parameters);
+      this.nextNonce = nonce + 1;
+      if (this.current) this.current.nonce = nonce;
+      return nonce;
+    },
+    increment: () => {
+      if (this.nextNonce !== undefined) this.nextNonce++;
+    },
+    get: async ({ address, client }) =>
+      this.nextNonce ?? getTransactionCount(client as Client, { address: address as Address, blockTag: 'pending' }),
+    reset: () => this.resetNonce(),
+  };
+
+  /**
+   * Forgets the local nonce, so the next write reads it from the chain again.
+   */
+  public resetNonce(): void {
+    this.nextNonce = undefined;
+  }
+
+  /**
+   * Records that the running write's transaction was sent. Called when the SDK starts
+   * waiting for the receipt, which it only does after the node accepted the transaction.
+   * @param hash The transaction hash.
+   */
+  public markSubmitted(hash: Hash): void {
+    if (!this.current) return;
+    this.current.status = 'submitted';
+    this.current.transactionHash = hash;
+    this.submitted?.(hash);
+  }
+
+  /**
+   * Runs a write once every earlier write has finished.
+   * @param operation The manager operation, such as addObject.
+   * @param description What the write does, for get_pending_transactions.
+   * @param run Performs the write, including waiting for its receipt.
+   * @param options Set onSubmitted to resolve once the transaction is sent instead of confirmed.
+   * @returns The result of run, or of onSubmitted if the transaction was sent first.
+   */
+  public enqueue<T>(operation: string, description: string, run: () => Promise<T>, options: EnqueueOptions<T> = {}): Promise<T> {
+    const write: QueuedWrite = {
+      id: this.nextId++,
+      operation,
+      description,
+      status: 'queued',
+      queuedAt: new Date().toISOString(),
+    };
+    this.active.set(write.id, write);
+
+    return new Promise<T>((resolve, reject) => {
+      const job = async () => {
+        this.current = write;
+        write.status = 'running';
+        if (options.onSubmitted) {
+          const onSubmitted = options.onSubmitted;
+          this.submitted = (hash) => resolve(onSubmitted(hash));
+        }
+
+        try {
+          const result = await run();
+          this.finish(write, 'confirmed');
+          resolve(result);
+        } catch (error) {
+          // A nonce may have been handed out without a transaction being sent, or taken by another writer
+          this.resetNonce();
+          const { message } = toRecallError(error);
+          this.finish(write, 'failed', message);
+          if (write.transactionHash && options.onSubmitted) {
+            logger.warn(`${operation} transaction ${write.transactionHash} failed after it was sent: ${message}`);
+          }
+          reject(error);
+        } finally {
+          this.current = undefined;
+          this.submitted = undefined;
+        }
+      };
+
+      this.tail = this.tail.then(job, job);
+    });
+  }
+
+  private finish(write: QueuedWrite, status: 'confirmed' | 'failed', error?: string): void {
+    write.status = status;
+    write.finishedAt = new Date().toISOString();
+    if (error) write.error = error;
+    this.active.delete(write.id);
+    this.recent = [write, ...this.recent].slice(0, RECENT_LIMIT);
+  }
+
+  /**
+   * Lists writes that are queued or in flight, and the most recently finished ones.
+   * @returns The writes, oldest first for pending ones and newest first for finished ones.
+   */
+  public list(): { pending: QueuedWrite[]; recent: QueuedWrite[]; nextNonce: number | null } {
+    return {
+      pending: [...this.active.values()].map((write) => ({ ...write })),
+      recent: this.recent.map((write) => ({ ...write })),
+      nextNonce: this.nextNonce ?? null,
+    };
+  }
+}
@@ -0,0 +1,83 @@
+import assert from 'node:assert/strict';
+import { appendFile, mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, describe, it } from 'node:test';
+import { Address } from 'viem';
+import { CreditTracker, formatDuration, STORAGE_RATE_ASSUMPTION } from '../src/credit-tracker.js';
+import { RecallClientManager } from '../src/recall-client.js';
+
+const ATTO = 10n ** 18n;
+const BUCKET = `0x${'ff'.repeat(20)}` as Address;
+
+const dataDirs: string[] = [];
+after(async () => Promise.all(dataDirs.map((dir) => rm(dir, { recursive: true, force: true }))));
+
+// A client with fixed credit whose bucket listings are counted
+const fakeClient = async (account: { creditFree: bigint; creditCommitted?: bigint; capacityUsed?: bigint }) => {
+  const dataDir = await mkdtemp(join(tmpdir(), 'recall-credit-'));
+  dataDirs.push(dataDir);
+  const listed: Address[] = [];
+  const client = {
+    profile: { dataDir },
+    getCreditInfo: async () => ({ creditCommitted: 0n, capacityUsed: 0n, maxTtl: 86400n, ...account }),
+    // One atto-token buys two atto-credit
+    getCreditStats: async () => ({ tokenCreditRate: 2n * 10n ** 18n }),
+    listAllObjects: async (bucket: Address) => {
+      listed.push(bucket);
+      return [{ key: 'a', size: 10n }, { key: 'b', size: 5n }];
+    },
+  } as unknown as RecallClientManager;
+  return { client, dataDir, listed };
+};
+
+describe('CreditTracker', () => {
+  it('estimates the cost at the assumed rate and says it is assumed', async () => {
+    const { client } = await fakeClient({ creditFree: 1000n * ATTO });
+    const estimate = await new CreditTracker(client).estimateCost(10n, 3600);
+    assert.equal(estimate.credit.raw, (36000n * ATTO).toString());
+    assert.equal(estimate.tokens.raw, (18000n * ATTO).toString());
+    assert.equal(estimate.affordable, false);
+    assert.equal(estimate.shortfall?.credit.raw, (35000n * ATTO).toString());
+    assert.equal(estimate.exceedsMaxTtl, false);
+    assert.deepEqual(estimate.assumptions, [STORAGE_RATE_ASSUMPTION]);
+  });
+
+  it('lists no bucket unless asked, and labels a burn rate taken from stored bytes', async () => {
+    const { client, listed } = await fakeClient({ creditFree: 86400n * 100n * ATTO, capacityUsed: 10n });
+    const report = await new CreditTracker(client).report([], 7 * 86400 * 1000);
+    assert.deepEqual(listed, []);
+    assert.deepEqual(report.buckets, []);
+    assert.equal(report.burnRate.basis, 'stored bytes');
+    assert.equal(report.burnRate.perDay.raw, (864000n * ATTO).toString());
+    assert.equal(report.projectedExhaustion?.days, 10);
+    assert.deepEqual(report.assumptions, [STORAGE_RATE_ASSUMPTION]);
+  });
+
+  it('reports the observed burn, ignoring purchases, and the requested buckets', async () => {
+    const { client, dataDir, listed } = await fakeClient({ creditFree: 70n * ATTO });
+    const hoursAgo = (hours: number) => new Date(Date.now() - hours * 3600 * 1000).toISOString();
+    const snapshot = (hours: number, credit: bigint) =>
+      JSON.stringify({ timestamp: hoursAgo(hours), creditFree: (credit * ATTO).toString(), creditCommitted: '0', capacityUsed: '0' });
+    // 30 burned, then 50 bought, then 50 burned by now: 80 over two days
+    await appendFile(join(dataDir, 'credit-history.jsonl'), `${[snapshot(48, 100n), snapshot(24, 70n), snapshot(12, 120n)].join('\n')}\n`);
+
+    const report = await new CreditTracker(client).report([{ address: BUCKET, alias: 'notes' }], 7 * 86400 * 1000);
+    assert.deepEqual(listed, [BUCKET]);
+    assert.equal(report.burnRate.basis, 'observed');
+    assert.deepEqual(report.assumptions, []);
+    assert.equal(Math.round(Number(BigInt(report.burnRate.perDay.raw) / 10n ** 15n) / 1000), 40);
+    assert.deepEqual(report.buckets.map(({ alias, objects, bytes }) => ({ alias, objects, bytes: bytes.raw })), [
+      { alias: 'notes', objects: 2, bytes: '15' },
+    ]);
+  });
+});
+
+describe('formatDuration', () => {
+  it('shows the two largest units', () => {
+    assert.equal(formatDuration(0), '0s');
+    assert.equal(formatDuration(90), '1m 30s');
+    assert.equal(formatDuration(86400 + 6 * 3600 + 59), '1d 6h');
+    assert.equal(formatDuration(1209600), '2w');
+  });
+});
@@ -0,0 +1,226 @@
+import assert from 'node:assert/strict';
+import { mkdtemp, readdir, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { Address } from 'viem';
+import { DATA_KEY_OBJECT, ENCRYPTED_KEY_PREFIX, ObjectEncryption } from '../src/encryption.js';
+import { config } from '../src/env.js';
+import { MemoryStore } from '../src/memory.js';
+import { AccessPolicy } from '../src/permissions.js';
+import { getRecallPrompt } from '../src/prompts.js';
+import { BucketObject, NetworkError, NotFoundError, RecallClientManager } from '../src/recall-client.js';
+import { readRecallResource } from '../src/resources.js';
+import { SearchIndex } from '../src/search.js';
+
+const BUCKET: Address = '0xff00000000000000000000000000000000000001';
+const OTHER_BUCKET: Address = '0xff00000000000000000000000000000000000002';
+
+const dataDirs: string[] = [];
+
+// The master key is read once, on first use, so it must be set before any ObjectEncryption is built
+before(() => {
+  process.env.RECALL_ENCRYPTION_KEY = '11'.repeat(32);
+});
+after(async () => Promise.all(dataDirs.map((dir) => rm(dir, { recursive: true, force: true }))));
+
+type Stored = { data: Uint8Array; metadata: Record<string, string> };
+
+// A client keeping objects in memory; getObjectInfo fails with `infoError` when it is set
+const fakeClient = async () => {
+  const dataDir = await mkdtemp(join(tmpdir(), 'recall-encryption-'));
+  dataDirs.push(dataDir);
+  const buckets = new Map<Address, Map<string, Stored>>();
+  const bucket = (address: Address): Map<string, Stored> => {
+    let objects = buckets.get(address);
+    if (!objects) {
+      objects = new Map();
+      buckets.set(address, objects);
+    }
+    return objects;
+  };
+  const find = (address: Address, key: string): Stored => {
+    const stored = bucket(address).get(key);
+    if (!stored) throw new NotFoundError('OBJECT_NOT_FOUND', `Object not found: ${key}`);
+    return stored;
+  };
+  const state = { infoError: undefined as Error | undefined };
+
+  const client = {
+    profile: { dataDir },
+    findBucketByAlias: async () => BUCKET,
+    addObject: async (address: Address, key: string, data: string | Uint8Array, options?: { metadata?: Record<string, string> }) => {
+      const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+      bucket(address).set(key, { data: bytes, metadata: options?.metadata ?? {} });
+      return { meta: {} };
+    },
+    getObject: async (address: Address, key: string) => find(address, key).data,
+    getObjectInfo: async (address: Address, key: string) => {
+      if (state.infoError) throw state.infoError;
+      return { metadata: find(address, key).metadata };
+    },
+    listAllObjects: async (address: Address, prefix = '') =>
+      [...bucket(address)].filter(([key]) => key.startsWith(prefix)).map(([key, { data, metadata }]) =>
+        ({ key, blobHash: Buffer.from(data).toString('base64'), size: BigInt(data.length), metadata }) as unknown as BucketObject),
+  } as unknown as RecallClientManager;
+  return { client, objects: (address: Address) => bucket(address), state };
+};
+
+const encode = (text: string): Uint8Array => new TextEncoder().encode(text);
+const decode = (data: Uint8Array): string => new TextDecoder().decode(data);
+
+describe('ObjectEncryption', () => {
+  it('round-trips a payload and stores a wrapped data key in the bucket', async () => {
+    const { client, objects } = await fakeClient();
+    const encryption = new ObjectEncryption(client);
+    assert.equal(encryption.enabled, true);
+
+    const sealed = await encryption.encrypt(BUCKET, 'notes/a.txt', encode('secret notes'), { contentType: 'text/plain' });
+    assert.equal(sealed.storedKey, 'notes/a.txt');
+    assert.ok(!decode(sealed.data).includes('secret'));
+    assert.ok(objects(BUCKET).has(DATA_KEY_OBJECT));
+
+    const opened = await encryption.decrypt(BUCKET, 'notes/a.txt', sealed.data, sealed.metadata);
+    assert.deepEqual(opened, { data: encode('secret notes'), encrypted: true, contentType: 'text/plain' });
+  });
+
+  it('passes unencrypted objects through', async () => {
+    const { client } = await fakeClient();
+    const opened = await new ObjectEncryption(client).decrypt(BUCKET, 'plain.txt', encode('hello'), {});
+    assert.deepEqual(opened, { data: encode('hello'), encrypted: false });
+  });
+
+  it('binds the ciphertext to its bucket and key', async () => {
+    const { client } = await fakeClient();
+    const encryption = new ObjectEncryption(client);
+    const sealed = await encryption.encrypt(BUCKET, 'a.txt', encode('secret'));
+
+    await assert.rejects(encryption.decrypt(BUCKET, 'b.txt', sealed.data, sealed.metadata), /wrong key or tampered data/);
+
+    const tampered = new Uint8Array(sealed.data);
+    tampered[0] ^= 1;
+    await assert.rejects(encryption.decrypt(BUCKET, 'a.txt', tampered, sealed.metadata), /wrong key or tampered data/);
+  });
+
+  it('encrypts key names deterministically and decrypts them back', async () => {
+    const { client } = await fakeClient();
+    const encryption = new ObjectEncryption(client);
+
+    const first = await encryption.encrypt(BUCKET, 'reports/q1.md', encode('one'), { encryptKey: true });
+    const second = await encryption.encrypt(BUCKET, 'reports/q1.md', encode('two'), { encryptKey: true });
+    assert.ok(first.storedKey.startsWith(ENCRYPTED_KEY_PREFIX));
+    assert.equal(first.storedKey, second.storedKey);
+    assert.equal(await encryption.decryptKeyName(BUCKET, first.storedKey), 'reports/q1.md');
+    assert.equal(await encryption.decryptKeyName(BUCKET, 'reports/q1.md'), undefined);
+  });
+
+  it('uses a separate data key per bucket', async () => {
+    const { client } = await fakeClient();
+    const encryption = new ObjectEncryption(client);
+    const sealed = await encryption.encrypt(BUCKET, 'a.txt', encode('secret'));
+    await encryption.encrypt(OTHER_BUCKET, 'b.txt', encode('other'));
+
+    await assert.rejects(encryption.decrypt(OTHER_BUCKET, 'a.txt', sealed.data, sealed.metadata));
+  });
+
+  it('resolves the stored key of plain and encrypted names', async () => {
+    const { client, state } = await fakeClient();
+    const encryption = new ObjectEncryption(client);
+    await client.addObject(BUCKET, 'plain.txt', 'hello');
+    const sealed = await encryption.encrypt(BUCKET, 'hidden.txt', encode('secret'), { encryptKey: true });
+    await client.addObject(BUCKET, sealed.storedKey, sealed.data, { metadata: sealed.metadata });
+
+    assert.equal(await encryption.resolveStoredKey(BUCKET, 'plain.txt'), 'plain.txt');
+    assert.equal(await encryption.resolveStoredKey(BUCKET, 'hidden.txt'), sealed.storedKey);
+    assert.equal(await encryption.resolveStoredKey(BUCKET, 'missing.txt'), 'missing.txt');
+
+    // A failed lookup is not mistaken for a missing object
+    state.infoError = new NetworkError('NETWORK_ERROR', 'fetch failed');
+    await assert.rejects(encryption.resolveStoredKey(BUCKET, 'hidden.txt'), { code: 'NETWORK_ERROR' });
+  });
+});
+
+describe('encrypted memories and search', () => {
+  it('stores memory records encrypted and recalls them in the clear', async () => {
+    const { client, objects } = await fakeClient();
+    const encryption = new ObjectEncryption(client);
+    const store = new MemoryStore(client, encryption);
+
+    const { key } = await store.remember({ agent: 'test', content: 'the launch code is 1234', tags: ['ops'] });
+    const stored = objects(BUCKET).get(key);
+    assert.ok(stored && !decode(stored.data).includes('launch code'));
+    assert.equal(stored.metadata.tags, 'ops');
+
+    const { memories, skipped } = await store.recall({ agent: 'test', tags: ['ops'] });
+    assert.deepEqual(skipped, []);
+    assert.equal(memories[0].record.content, 'the launch code is 1234');
+  });
+
+  it('keeps encrypted objects out of the search index by default', async () => {
+    const { client } = await fakeClient();
+    const encryption = new ObjectEncryption(client);
+    const sealed = await encryption.encrypt(BUCKET, 'plans/roadmap.md', encode('ship the quantum widget'), { encryptKey: true });
+    await client.addObject(BUCKET, sealed.storedKey, sealed.data, { metadata: sealed.metadata });
+
+    const index = new SearchIndex(client, encryption);
+    assert.deepEqual((await index.refresh(BUCKET)).failed, []);
+    assert.deepEqual(await index.search('quantum widget', [BUCKET]), []);
+
+    const searchDir = join(client.profile.dataDir, 'search');
+    const [file] = await readdir(searchDir);
+    const saved = await readFile(join(searchDir, file), 'utf8');
+    assert.doesNotMatch(saved, /quantum|roadmap/);
+  });
+
+  it('indexes encrypted objects by their plaintext key and content when asked to', async (t) => {
+    config.RECALL_SEARCH_ENCRYPTED = true;
+    t.after(() => {
+      config.RECALL_SEARCH_ENCRYPTED = false;
+    });
+    const { client } = await fakeClient();
+    const encryption = new ObjectEncryption(client);
+    const sealed = await encryption.encrypt(BUCKET, 'plans/roadmap.md', encode('ship the quantum widget'), { encryptKey: true });
+    await client.addObject(BUCKET, sealed.storedKey, sealed.data, { metadata: sealed.metadata });
+
+    const index = new SearchIndex(client, encryption);
+    const { failed } = await index.refresh(BUCKET);
+    assert.deepEqual(failed, []);
+
+    const hits = await index.search('quantum widget', [BUCKET]);
+    assert.deepEqual(hits.map((hit) => hit.key), ['plans/roadmap.md']);
+    assert.match(hits[0].snippet, /quantum widget/);
+  });
+});
+
+describe('encrypted resources and prompts', () => {
+  const policy = { resolveBucket: async () => BUCKET } as unknown as AccessPolicy;
+
+  // A bucket holding one plain and one fully encrypted object, plus the wrapped data key
+  const encryptedBucket = async () => {
+    const { client } = await fakeClient();
+    const encryption = new ObjectEncryption(client);
+    await client.addObject(BUCKET, 'notes/plain.txt', 'plain notes');
+    const sealed = await encryption.encrypt(BUCKET, 'notes/secret.txt', encode('secret notes'), { encryptKey: true });
+    await client.addObject(BUCKET, sealed.storedKey, sealed.data, { metadata: sealed.metadata });
+    return { client, encryption };
+  };
+
+  it('lists plaintext keys without the data key and reads decrypted objects', async () => {
+    const { client, encryption } = await encryptedBucket();
+
+    const listing = await readRecallResource(client, policy, encryption, 'recall://notes');
+    const { objects } = JSON.parse(String(listing.contents[0].text)) as { objects: { key: string }[] };
+    assert.deepEqual(objects.map((obj) => obj.key), ['notes/plain.txt', 'notes/secret.txt']);
+
+    const object = await readRecallResource(client, policy, encryption, 'recall://notes/notes/secret.txt');
+    assert.equal(object.contents[0].text, 'secret notes');
+  });
+
+  it('embeds decrypted objects matched by their plaintext prefix in prompts', async () => {
+    const { client, encryption } = await encryptedBucket();
+    const { messages } = await getRecallPrompt(client, policy, encryption, 'restore_context', { bucket: 'notes', prefix: 'notes/s' });
+    const texts = messages.map((message) => JSON.stringify(message.content));
+    assert.ok(texts.some((text) => text.includes('secret notes')));
+    assert.ok(!texts.some((text) => text.includes('plain notes') || text.includes('data-key')));
+  });
+});
@@ -0,0 +1,113 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { Address } from 'viem';
+import { ObjectEncryption } from '../src/encryption.js';
+import { LIFECYCLE_POLICY_OBJECT, LifecycleManager, LifecycleRule } from '../src/lifecycle.js';
+import { BucketObject, CREATED_AT_METADATA, NetworkError, RecallClientManager } from '../src/recall-client.js';
+
+const BUCKET: Address = '0xff00000000000000000000000000000000000001';
+const NOW = Date.parse('2025-06-01T00:00:00.000Z');
+const HOUR_MS = 60 * 60 * 1000;
+
+// An object stored the given number of hours before NOW, or without a creation time
+const object = (key: string, hoursAgo?: number): BucketObject => ({
+  key,
+  size: 1n,
+  expiry: 0n,
+  blobHash: '',
+  metadata: hoursAgo === undefined ? undefined : { [CREATED_AT_METADATA]: new Date(NOW - hoursAgo * HOUR_MS).toISOString() },
+});
+
+// A manager over a bucket holding the given objects; deleting a key in `failing` fails
+const lifecycleManager = (objects: BucketObject[], failing: string[] = []) => {
+  const deleted: string[] = [];
+  const client = {
+    listAllObjects: async () => objects,
+    deleteObject: async (_bucket: Address, key: string) => {
+      if (failing.includes(key)) throw new NetworkError('TIMEOUT', 'timed out');
+      deleted.push(key);
+    },
+  } as unknown as RecallClientManager;
+  return { manager: new LifecycleManager(client, new ObjectEncryption(client)), deleted };
+};
+
+const plan = (objects: BucketObject[], rules: LifecycleRule[]) =>
+  lifecycleManager(objects).manager.plan(BUCKET, { version: 1, rules, updatedAt: new Date(NOW).toISOString() }, NOW);
+
+describe('LifecycleManager.plan', () => {
+  it('expires objects older than expireAfter under the prefix', async () => {
+    const result = await plan(
+      [object('tmp/old', 48), object('tmp/new', 1), object('keep/old', 48)],
+      [{ prefix: 'tmp/', expireAfter: '1d' }],
+    );
+    assert.equal(result.evaluated, 3);
+    assert.deepEqual(result.actions, [
+      { key: 'tmp/old', rule: 'rule 1', reason: 'older than 1d', createdAt: new Date(NOW - 48 * HOUR_MS).toISOString() },
+    ]);
+    assert.deepEqual(result.undated, []);
+  });
+
+  it('keeps the newest dated objects for keepLast and reports undated ones', async () => {
+    const result = await plan(
+      [object('logs/a', 3), object('logs/b', 2), object('logs/c', 1), object('logs/legacy')],
+      [{ id: 'logs', prefix: 'logs/', keepLast: 2 }],
+    );
+    assert.deepEqual(result.actions.map((action) => action.key), ['logs/a']);
+    assert.ok(result.actions.every((action) => action.rule === 'logs'));
+    assert.deepEqual(result.undated, ['logs/legacy']);
+  });
+
+  it('leaves undated objects in place under expireAfter and reports them', async () => {
+    const result = await plan([object('tmp/legacy'), object('tmp/new', 0.5)], [{ prefix: 'tmp/', expireAfter: '1h' }]);
+    assert.deepEqual(result.actions, []);
+    assert.deepEqual(result.undated, ['tmp/legacy']);
+  });
+
+  it('treats an unparseable creation time as unknown', async () => {
+    const result = await plan(
+      [{ ...object('tmp/garbled'), metadata: { [CREATED_AT_METADATA]: 'yesterday' } }],
+      [{ prefix: 'tmp/', expireAfter: '1h' }],
+    );
+    assert.deepEqual(result.undated, ['tmp/garbled']);
+  });
+
+  it('reports an object matched by several rules under the first that deletes it', async () => {
+    const result = await plan(
+      [object('logs/a', 72), object('logs/b', 1)],
+      [
+        { id: 'keep-one', prefix: 'logs/', keepLast: 1 },
+        { id: 'expire', prefix: 'logs/', expireAfter: '1d' },
+      ],
+    );
+    assert.deepEqual(result.actions.map(({ key, rule }) => ({ key, rule })), [{ key: 'logs/a', rule: 'keep-one' }]);
+  });
+
+  it('never touches server state under the reserved prefix', async () => {
+    const result = await plan([object(LIFECYCLE_POLICY_OBJECT, 1000), object('a', 1000)], [{ prefix: '', expireAfter: '1h' }]);
+    assert.equal(result.evaluated, 1);
+    assert.deepEqual(result.actions.map((action) => action.key), ['a']);
+  });
+});
+
+describe('LifecycleManager.apply', () => {
+  it('deletes past individual failures and reports them', async () => {
+    const { manager, deleted } = lifecycleManager([], ['b']);
+    const actions = ['a', 'b', 'c'].map((key) => ({ key, rule: 'rule 1', reason: 'test', createdAt: null }));
+    const result = await manager.apply(BUCKET, actions);
+    assert.deepEqual(result.deleted, ['a', 'c']);
+    assert.deepEqual(deleted, ['a', 'c']);
+    assert.deepEqual(result.failed, [{ key: 'b', error: 'timed out', code: 'TIMEOUT' }]);
+  });
+});
+
+describe('LifecycleManager.setPolicy', () => {
+  it('rejects rules without an action, on the reserved prefix or with duplicate ids', async () => {
+    const { manager } = lifecycleManager([]);
+    await assert.rejects(manager.setPolicy(BUCKET, [{ prefix: 'tmp/' }]), { code: 'INVALID_ARGUMENT' });
+    await assert.rejects(manager.setPolicy(BUCKET, [{ prefix: '.recall/x', keepLast: 1 }]), /server state/);
+    await assert.rejects(
+      manager.setPolicy(BUCKET, [{ id: 'a', prefix: 'x/', keepLast: 1 }, { id: 'a', prefix: 'y/', keepLast: 1 }]),
+      /Duplicate lifecycle rule ids: a/,
+    );
+  });
+});
@@ -0,0 +1,82 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { ObjectEncryption } from '../src/encryption.js';
+import { commonPathPrefix, datePrefix, MemoryStore, memoryKey } from '../src/memory.js';
+import { BucketObject, RecallClientManager } from '../src/recall-client.js';
+
+const BUCKET = '0xff00000000000000000000000000000000000001';
+
+const memoryObject = (key: string, timestamp: string): BucketObject =>
+  ({ key, size: 0n, metadata: { type: 'memory', tags: '', importance: '0.5', timestamp } }) as unknown as BucketObject;
+
+// A client serving a fixed memory bucket; only the calls MemoryStore makes are implemented
+const fakeClient = (objects: Record<string, string | Error>, bucket: string | null = BUCKET) =>
+  ({
+    findBucketByAlias: async () => bucket,
+    getOrCreateBucket: async () => BUCKET,
+    listAllObjects: async (_bucket: string, prefix = '') =>
+      Object.keys(objects)
+        .filter((key) => key.startsWith(prefix))
+        .map((key) => memoryObject(key, '2025-01-15T12:00:00.000Z')),
+    getObject: async (_bucket: string, key: string) => {
+      const content = objects[key];
+      if (content instanceof Error) throw content;
+      return new TextEncoder().encode(content);
+    },
+    addObject: async () => ({ meta: {} }),
+  }) as unknown as RecallClientManager;
+
+const memoryStore = (client: RecallClientManager) => new MemoryStore(client, new ObjectEncryption(client));
+
+describe('memory key layout', () => {
+  it('builds the UTC date folder of a time', () => {
+    assert.equal(datePrefix(new Date('2025-01-05T23:30:00Z')), 'memories/2025/01/05/');
+    assert.equal(datePrefix(new Date('2024-12-31T23:59:59+01:00')), 'memories/2024/12/31/');
+  });
+
+  it('rebuilds the key from the id', () => {
+    const id = `${Date.parse('2025-03-09T10:00:00Z')}-0a1b2c3d`;
+    assert.equal(memoryKey(id), `memories/2025/03/09/${id}.json`);
+  });
+
+  it('rejects ids that do not start with a timestamp', () => {
+    assert.throws(() => memoryKey('not-an-id'), { code: 'INVALID_ARGUMENT' });
+    assert.throws(() => memoryKey('1736942400000-XYZ'), { code: 'INVALID_ARGUMENT' });
+  });
+});
+
+describe('date prefix narrowing', () => {
+  it('keeps the shared folders of two days', () => {
+    assert.equal(commonPathPrefix('memories/2025/01/05/', 'memories/2025/01/05/'), 'memories/2025/01/05/');
+    assert.equal(commonPathPrefix('memories/2025/01/05/', 'memories/2025/01/28/'), 'memories/2025/01/');
+    assert.equal(commonPathPrefix('memories/2025/01/05/', 'memories/2025/03/01/'), 'memories/2025/');
+    assert.equal(commonPathPrefix('memories/2024/12/31/', 'memories/2025/01/01/'), 'memories/');
+  });
+
+  it('cuts a partial folder name back to the last separator', () => {
+    assert.equal(commonPathPrefix('memories/2025/01/10/', 'memories/2025/01/19/'), 'memories/2025/01/');
+  });
+});
+
+describe('MemoryStore', () => {
+  it('reports unreadable records instead of failing the recall', async () => {
+    const good = { id: '1', content: 'hello', tags: [], source: null, importance: 0.5, timestamp: '2025-01-15T12:00:00.000Z' };
+    const store = memoryStore(fakeClient({
+      'memories/2025/01/15/a.json': JSON.stringify(good),
+      'memories/2025/01/15/b.json': '{ not json',
+      'memories/2025/01/15/c.json': new Error('connection reset'),
+    }));
+
+    const { memories, skipped } = await store.recall({ agent: 'test' });
+    assert.deepEqual(memories, [{ key: 'memories/2025/01/15/a.json', record: good }]);
+    assert.deepEqual(skipped.map(({ key }) => key).sort(), ['memories/2025/01/15/b.json', 'memories/2025/01/15/c.json']);
+  });
+
+  it('does not create a missing memory bucket unless allowed to', async () => {
+    const store = memoryStore(fakeClient({}, null));
+    await assert.rejects(store.remember({ agent: 'test', content: 'hello' }), { code: 'BUCKET_NOT_FOUND' });
+
+    const { bucket } = await store.remember({ agent: 'test', content: 'hello' }, { createBucket: true });
+    assert.equal(bucket, BUCKET);
+  });
+});
@@ -0,0 +1,32 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { ObjectEncryption } from '../src/encryption.js';
+import { AccessPolicy } from '../src/permissions.js';
+import { getRecallPrompt, listRecallPrompts } from '../src/prompts.js';
+import { RecallClientManager } from '../src/recall-client.js';
+
+// store_memory reads nothing from the network, so no client calls are expected
+const client = {} as unknown as RecallClientManager;
+const policy = (profile: 'readonly' | 'writer' | 'admin') => new AccessPolicy(client, profile, [], []);
+const encryption = new ObjectEncryption(client);
+
+describe('store_memory prompt', () => {
+  it('is only listed when the profile grants remember', () => {
+    const names = (profile: 'readonly' | 'writer') => listRecallPrompts(policy(profile)).map((prompt) => prompt.name);
+    assert.ok(names('writer').includes('store_memory'));
+    assert.ok(!names('readonly').includes('store_memory'));
+    assert.ok(names('readonly').includes('summarize_bucket'));
+  });
+
+  it('points the model at the memory tools', async () => {
+    const { messages } = await getRecallPrompt(client, policy('writer'), encryption, 'store_memory', { topic: 'release plan', agent: 'planner' });
+    const text = (messages[0].content as { text: string }).text;
+    assert.match(text, /recall_memories tool with agent "planner"/);
+    assert.match(text, /remember tool with agent "planner"/);
+    assert.doesNotMatch(text, /add_object/);
+  });
+
+  it('refuses profiles that cannot store memories', async () => {
+    await assert.rejects(getRecallPrompt(client, policy('readonly'), encryption, 'store_memory'), { code: 'TOOL_NOT_PERMITTED' });
+  });
+});
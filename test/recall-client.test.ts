@@ -0,0 +1,293 @@
+import assert from 'node:assert/strict';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import { BaseError } from 'viem';
+import { config } from '../src/env.js';
+import {
+  CREATED_AT_METADATA,
+  InsufficientFundsError,
+  NetworkError,
+  NotFoundError,
+  RecallClientManager,
+  RecallError,
+  toRecallError,
+  TransactionError,
+} from '../src/recall-client.js';
+
+type ExecuteOptions<T> = { write?: boolean; idempotent?: boolean; recover?: () => Promise<T | undefined> };
+
+// The retry logic is private; tests reach it through this view of the manager
+type Internals = {
+  execute<T>(operation: string, call: () => Promise<T>, options?: ExecuteOptions<T>): Promise<T>;
+  write<T>(operation: string, description: string, call: () => Promise<T>, options?: ExecuteOptions<T>): Promise<T>;
+  writeQueue: { nonceManager: { consume(parameters: unknown): Promise<number> } };
+  client: unknown;
+};
+
+let dir: string;
+let manager: RecallClientManager;
+let internals: Internals;
+
+before(async () => {
+  // A remote signer needs no key material, and nothing here sends a request to it
+  dir = await mkdtemp(join(tmpdir(), 'recall-client-'));
+  const profilesFile = join(dir, 'profiles.json');
+  await writeFile(profilesFile, JSON.stringify({
+    default: 'test',
+    profiles: {
+      test: { network: 'localnet', signer: { type: 'remote', url: 'http://127.0.0.1:9', address: `0x${'11'.repeat(20)}` } },
+    },
+  }));
+  config.RECALL_PROFILES_FILE = profilesFile;
+  config.RECALL_DATA_DIR = dir;
+  manager = RecallClientManager.getInstance();
+  internals = manager as unknown as Internals;
+});
+after(async () => rm(dir, { recursive: true, force: true }));
+
+beforeEach(() => {
+  config.RECALL_MAX_ATTEMPTS = 3;
+  config.RECALL_RETRY_BASE_DELAY_MS = 1;
+  config.RECALL_RETRY_MAX_DELAY_MS = 1;
+  config.RECALL_OPERATION_TIMEOUTS = {};
+});
+
+// A call that fails with the given errors in turn, then succeeds; `attempts` counts the calls
+const flaky = (...errors: Error[]) => {
+  const state = { attempts: 0 };
+  const call = async () => {
+    const error = errors[state.attempts++];
+    if (error) throw error;
+    return 'done';
+  };
+  return { call, state };
+};
+
+const timeout = () => new NetworkError('TIMEOUT', 'timed out');
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('toRecallError', () => {
+  it('classifies errors by their message when the SDK wraps them', () => {
+    assert.equal(toRecallError(new Error('request timed out')).code, 'TIMEOUT');
+    assert.equal(toRecallError(new Error('fetch failed')).code, 'NETWORK_ERROR');
+    assert.equal(toRecallError(new Error('nonce too low: next nonce 5')).code, 'NONCE_CONFLICT');
+    assert.equal(toRecallError(new Error('insufficient funds for gas')).code, 'INSUFFICIENT_FUNDS');
+    assert.equal(toRecallError(new Error('something else')).code, 'UNKNOWN');
+  });
+
+  it('uses the short message of viem errors and keeps RecallErrors', () => {
+    const error = new RecallError('X', 'kept');
+    assert.equal(toRecallError(error), error);
+    assert.equal(toRecallError(new BaseError('short', { details: 'long details' })).message, 'short');
+  });
+
+  it('marks nonce conflicts retryable and reverts final', () => {
+    assert.equal(new TransactionError('conflict', { code: 'NONCE_CONFLICT' }).retryable, true);
+    assert.equal(new TransactionError('reverted').retryable, false);
+  });
+});
+
+describe('RecallClientManager retries', () => {
+  it('retries a read until it succeeds', async () => {
+    const { call, state } = flaky(timeout(), new NetworkError('RATE_LIMITED', 'slow down'));
+    assert.equal(await internals.execute('read', call), 'done');
+    assert.equal(state.attempts, 3);
+  });
+
+  it('gives up after RECALL_MAX_ATTEMPTS', async () => {
+    const { call, state } = flaky(timeout(), timeout(), timeout(), timeout());
+    await assert.rejects(internals.execute('read', call), { code: 'TIMEOUT' });
+    assert.equal(state.attempts, 3);
+  });
+
+  it('does not retry an error that will happen again', async () => {
+    const { call, state } = flaky(new InsufficientFundsError('INSUFFICIENT_FUNDS', 'no funds'));
+    await assert.rejects(internals.execute('read', call), { code: 'INSUFFICIENT_FUNDS' });
+    assert.equal(state.attempts, 1);
+  });
+
+  it('times out a call that does not answer', async () => {
+    config.RECALL_OPERATION_TIMEOUTS = { hang: 10 };
+    config.RECALL_MAX_ATTEMPTS = 1;
+    await assert.rejects(internals.execute('hang', () => new Promise(() => {})), { code: 'TIMEOUT' });
+  });
+
+  it('does not repeat a write that may have been applied', async () => {
+    const { call, state } = flaky(timeout());
+    await assert.rejects(internals.execute('write', call, { write: true }), { code: 'TIMEOUT' });
+    assert.equal(state.attempts, 1);
+  });
+
+  it('asks once whether an ambiguous write was applied', async () => {
+    const { call, state } = flaky(timeout());
+    let checks = 0;
+    const recover = async () => {
+      checks++;
+      return undefined;
+    };
+    await assert.rejects(internals.execute('write', call, { write: true, recover }), { code: 'TIMEOUT' });
+    assert.equal(state.attempts, 1);
+    assert.equal(checks, 1);
+  });
+
+  it('returns the recovered result of an ambiguous write', async () => {
+    const { call } = flaky(timeout());
+    const result = await internals.execute('write', call, { write: true, recover: async () => 'recovered' });
+    assert.equal(result, 'recovered');
+  });
+
+  it('retries an idempotent write, checking once per failure whether an earlier attempt landed', async () => {
+    // The retry is rejected because the first attempt did store the object
+    const { call, state } = flaky(timeout(), new RecallError('UNKNOWN', 'object already exists'));
+    let checks = 0;
+    const recover = async () => (++checks === 2 ? 'recovered' : undefined);
+
+    assert.equal(await internals.execute('write', call, { write: true, idempotent: true, recover }), 'recovered');
+    assert.equal(state.attempts, 2);
+    assert.equal(checks, 2);
+  });
+
+  it('checks an idempotent write once per failed attempt', async () => {
+    const { call, state } = flaky(timeout(), timeout());
+    let checks = 0;
+    const recover = async () => {
+      checks++;
+      return undefined;
+    };
+
+    assert.equal(await internals.execute('write', call, { write: true, idempotent: true, recover }), 'done');
+    assert.equal(state.attempts, 3);
+    assert.equal(checks, 2);
+  });
+
+  it('resets the nonce when a write attempt times out, before retrying it', async () => {
+    config.RECALL_OPERATION_TIMEOUTS = { slowWrite: 10 };
+    const client = { request: async () => '0x5' };
+    await internals.writeQueue.nonceManager.consume({ address: manager.getWalletAddress(), chainId: 1, client });
+    assert.equal(manager.getPendingTransactions().nextNonce, 6);
+
+    let attempts = 0;
+    const nonces: (number | null)[] = [];
+    const result = await internals.write('slowWrite', 'test write', async () => {
+      attempts++;
+      nonces.push(manager.getPendingTransactions().nextNonce);
+      // The first attempt times out, then fails with a nonce conflict
+      if (attempts === 1) {
+        await sleep(15);
+        throw new TransactionError('nonce too low', { code: 'NONCE_CONFLICT' });
+      }
+      return 'done';
+    }, { idempotent: true });
+
+    assert.equal(result, 'done');
+    assert.deepEqual(nonces, [6, null]);
+  });
+
+  it('waits for a timed-out write attempt to finish before retrying it', async () => {
+    config.RECALL_OPERATION_TIMEOUTS = { slowWrite: 100 };
+    const events: string[] = [];
+    let attempts = 0;
+    let checks = 0;
+    const recover = async () => {
+      checks++;
+      events.push('check');
+      return undefined;
+    };
+    const result = await internals.execute('slowWrite', async () => {
+      const attempt = ++attempts;
+      events.push(`start ${attempt}`);
+      // The first attempt outlives its timeout, so a retry sent right away would run alongside it
+      if (attempt === 1) await sleep(150);
+      events.push(`end ${attempt}`);
+      if (attempt === 1) throw new NetworkError('NETWORK_ERROR', 'connection reset');
+      return 'done';
+    }, { write: true, idempotent: true, recover });
+
+    assert.equal(result, 'done');
+    assert.deepEqual(events, ['start 1', 'end 1', 'check', 'start 2', 'end 2']);
+    assert.equal(checks, 1);
+  });
+
+  it('returns the result of a timed-out write attempt that finishes late', async () => {
+    config.RECALL_OPERATION_TIMEOUTS = { slowWrite: 100 };
+    let attempts = 0;
+    const result = await internals.execute('slowWrite', async () => {
+      attempts++;
+      await sleep(150);
+      return 'late';
+    }, { write: true, idempotent: true });
+
+    assert.equal(result, 'late');
+    assert.equal(attempts, 1);
+  });
+
+  it('does not retry a write attempt that is still running after its grace period', async () => {
+    config.RECALL_OPERATION_TIMEOUTS = { slowWrite: 10 };
+    let attempts = 0;
+    let checks = 0;
+    const recover = async () => {
+      checks++;
+      return undefined;
+    };
+    await assert.rejects(internals.execute('slowWrite', () => {
+      attempts++;
+      return new Promise<string>(() => {});
+    }, { write: true, idempotent: true, recover }), { code: 'TIMEOUT' });
+    assert.equal(attempts, 1);
+    assert.equal(checks, 1);
+  });
+});
+
+describe('addObject', () => {
+  it('records the creation time even when the caller metadata names it', async () => {
+    const sdkClient = internals.client;
+    const sent: { metadata?: Record<string, string> }[] = [];
+    internals.client = {
+      bucketManager: () => ({
+        add: async (_bucket: unknown, _key: unknown, _data: unknown, options: { metadata?: Record<string, string> }) => {
+          sent.push(options);
+          return { meta: {} };
+        },
+      }),
+    };
+    try {
+      const before = Date.now();
+      await manager.addObject(`0x${'ff'.repeat(20)}`, 'notes/a', 'hello', {
+        metadata: { [CREATED_AT_METADATA]: '2000-01-01T00:00:00.000Z', topic: 'greeting' },
+        waitForReceipt: true,
+      });
+      const metadata = sent[0].metadata ?? {};
+      assert.equal(metadata.topic, 'greeting');
+      assert.ok(Date.parse(metadata[CREATED_AT_METADATA]) >= before);
+    } finally {
+      internals.client = sdkClient;
+    }
+  });
+});
+
+describe('addObjects', () => {
+  it('does not start an atomic batch when a key cannot be checked', async () => {
+    const added: string[] = [];
+    const stubs = {
+      getObjectInfo: async (_bucket: unknown, key: string) => {
+        if (key === 'b') throw new NetworkError('NETWORK_ERROR', 'fetch failed');
+        throw new NotFoundError('OBJECT_NOT_FOUND', `Object not found: ${key}`);
+      },
+      addObject: async (_bucket: unknown, key: string) => {
+        added.push(key);
+        return { meta: {} };
+      },
+    };
+    Object.assign(manager, stubs);
+    try {
+      const items = ['a', 'b'].map((key) => ({ key, data: 'x' }));
+      await assert.rejects(manager.addObjects(`0x${'ff'.repeat(20)}`, items, { atomic: true }), { code: 'NETWORK_ERROR' });
+      assert.deepEqual(added, []);
+    } finally {
+      for (const name of Object.keys(stubs)) delete (manager as unknown as Record<string, unknown>)[name];
+    }
+  });
+});
@@ -0,0 +1,76 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { Address } from 'viem';
+import { ObjectEncryption } from '../src/encryption.js';
+import { AccessPolicy } from '../src/permissions.js';
+import { BucketObject, RecallClientManager } from '../src/recall-client.js';
+import { buildRecallUri, listRecallResources, parseRecallUri } from '../src/resources.js';
+
+const NOTES: Address = '0xff00000000000000000000000000000000000001';
+const LOGS_A: Address = '0xff00000000000000000000000000000000000002';
+const LOGS_B: Address = '0xff00000000000000000000000000000000000003';
+
+const object = (key: string): BucketObject => ({ key, size: 1n, expiry: 0n, blobHash: '' });
+
+// A client whose buckets hold the given keys, listed in pages of `limit`
+const fakeClient = (buckets: { address: Address; alias?: string; keys: string[] }[]) => ({
+  listBuckets: async () => buckets.map(({ address, alias }) => ({ addr: address, metadata: alias ? { alias } : {} })),
+  listBucketObjects: async (address: Address, options: { startKey?: string; limit?: number }) => {
+    const keys = buckets.find((bucket) => bucket.address === address)?.keys ?? [];
+    const from = options.startKey ? keys.indexOf(options.startKey) : 0;
+    const page = keys.slice(from, from + (options.limit ?? 100));
+    return { objects: page.map(object), commonPrefixes: [], nextKey: keys[from + page.length] };
+  },
+}) as unknown as RecallClientManager;
+
+const allowAll = { isBucketAllowed: async () => true } as unknown as AccessPolicy;
+
+// No master key is set here, so key names are listed as stored
+const list = (client: RecallClientManager, cursor?: string) =>
+  listRecallResources(client, allowAll, new ObjectEncryption(client), cursor);
+
+describe('recall:// URIs', () => {
+  it('round-trip keys with reserved characters', () => {
+    const uri = buildRecallUri('notes', 'a b/c?d#e');
+    assert.equal(uri, 'recall://notes/a%20b/c%3Fd%23e');
+    assert.deepEqual(parseRecallUri(uri), { bucket: 'notes', key: 'a b/c?d#e' });
+    assert.deepEqual(parseRecallUri('recall://notes'), { bucket: 'notes', key: undefined });
+  });
+});
+
+describe('listRecallResources', () => {
+  it('pages through each bucket in turn', async () => {
+    const keys = Array.from({ length: 150 }, (_, i) => `k${String(i).padStart(3, '0')}`);
+    const client = fakeClient([{ address: NOTES, alias: 'notes', keys }, { address: LOGS_A, keys: ['only'] }]);
+
+    const first = await list(client);
+    assert.equal(first.resources.length, 101);
+    assert.equal(first.resources[0].uri, 'recall://notes');
+    assert.equal(first.resources[100].uri, 'recall://notes/k099');
+
+    const second = await list(client, first.nextCursor);
+    assert.equal(second.resources.length, 50);
+    assert.equal(second.resources[0].uri, 'recall://notes/k100');
+
+    const third = await list(client, second.nextCursor);
+    assert.deepEqual(third.resources.map((resource) => resource.uri), [`recall://${LOGS_A}`, `recall://${LOGS_A}/only`]);
+    assert.equal(third.nextCursor, undefined);
+  });
+
+  it('uses the address for buckets that share an alias', async () => {
+    const client = fakeClient([{ address: LOGS_A, alias: 'logs', keys: [] }, { address: LOGS_B, alias: 'logs', keys: [] }]);
+    const { resources } = await list(client);
+    assert.equal(resources[0].uri, `recall://${LOGS_A}`);
+  });
+
+  it('hides the server state under .recall/', async () => {
+    const client = fakeClient([{ address: NOTES, alias: 'notes', keys: ['.recall/data-key.json', 'a'] }]);
+    const { resources } = await list(client);
+    assert.deepEqual(resources.map((resource) => resource.uri), ['recall://notes', 'recall://notes/a']);
+  });
+
+  it('rejects a malformed cursor', async () => {
+    const client = fakeClient([{ address: NOTES, keys: [] }]);
+    await assert.rejects(list(client, 'not a cursor'), { code: 'INVALID_ARGUMENT' });
+  });
+});
@@ -0,0 +1,107 @@
+import assert from 'node:assert/strict';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, describe, it } from 'node:test';
+import { Address } from 'viem';
+import { ObjectEncryption } from '../src/encryption.js';
+import { BucketObject, RecallClientManager } from '../src/recall-client.js';
+import { SearchIndex } from '../src/search.js';
+
+const BUCKET_A: Address = '0xff00000000000000000000000000000000000001';
+const BUCKET_B: Address = '0xff00000000000000000000000000000000000002';
+
+const dataDirs: string[] = [];
+after(async () => Promise.all(dataDirs.map((dir) => rm(dir, { recursive: true, force: true }))));
+
+// A client serving fixed buckets from memory; an Error as content makes that download fail
+const fakeClient = async (buckets: Record<Address, Record<string, string | Error>>) => {
+  const dataDir = await mkdtemp(join(tmpdir(), 'recall-search-'));
+  dataDirs.push(dataDir);
+  return {
+    profile: { dataDir },
+    listAllObjects: async (bucket: Address) =>
+      Object.entries(buckets[bucket] ?? {}).map(([key, content]) =>
+        ({ key, blobHash: `${key}:${String(content)}`, size: BigInt(String(content).length) }) as unknown as BucketObject),
+    getObject: async (bucket: Address, key: string) => {
+      const content = buckets[bucket][key];
+      if (content instanceof Error) throw content;
+      return new TextEncoder().encode(content);
+    },
+  } as unknown as RecallClientManager;
+};
+
+const searchIndex = async (buckets: Record<Address, Record<string, string | Error>>) => {
+  const client = await fakeClient(buckets);
+  return new SearchIndex(client, new ObjectEncryption(client));
+};
+
+describe('SearchIndex', () => {
+  it('ranks documents matching more of the query first', async () => {
+    const index = await searchIndex({
+      [BUCKET_A]: {
+        'notes/one.txt': 'the quarterly revenue report for the board',
+        'notes/two.txt': 'revenue went up',
+        'notes/three.txt': 'a recipe for lemon cake',
+      },
+    });
+    await index.refresh(BUCKET_A);
+
+    const hits = await index.search('quarterly revenue', [BUCKET_A]);
+    assert.deepEqual(hits.map((hit) => hit.key), ['notes/one.txt', 'notes/two.txt']);
+    assert.equal(hits[0].score, 1);
+    assert.ok(hits[1].score < 1);
+  });
+
+  it('scores documents from different buckets on one scale', async () => {
+    const index = await searchIndex({
+      [BUCKET_A]: { 'a.txt': 'apple' },
+      [BUCKET_B]: { 'b.txt': 'apple banana' },
+    });
+    await index.refresh(BUCKET_A);
+    await index.refresh(BUCKET_B);
+
+    // Normalized per bucket, both documents would score 1
+    const hits = await index.search('apple banana', [BUCKET_A, BUCKET_B]);
+    assert.deepEqual(hits.map((hit) => [hit.bucket, hit.key]), [[BUCKET_B, 'b.txt'], [BUCKET_A, 'a.txt']]);
+    assert.ok(hits[0].score > hits[1].score);
+  });
+
+  it('matches object keys as well as content', async () => {
+    const index = await searchIndex({
+      [BUCKET_A]: { 'reports/2024/q1.md': 'numbers', 'reports/2023/q4.md': 'numbers' },
+    });
+    await index.refresh(BUCKET_A);
+
+    const hits = await index.search('2024', [BUCKET_A]);
+    assert.deepEqual(hits.map((hit) => hit.key), ['reports/2024/q1.md']);
+  });
+
+  it('keeps indexing past a failed download and retries it on the next refresh', async () => {
+    const objects: Record<string, string | Error> = {
+      'ok.txt': 'searchable text',
+      'broken.txt': new Error('connection reset'),
+    };
+    const index = await searchIndex({ [BUCKET_A]: objects });
+
+    const first = await index.refresh(BUCKET_A);
+    assert.equal(first.indexed, 1);
+    assert.deepEqual(first.failed.map((failure) => failure.key), ['broken.txt']);
+    assert.deepEqual((await index.search('searchable', [BUCKET_A])).map((hit) => hit.key), ['ok.txt']);
+
+    objects['broken.txt'] = 'searchable again';
+    const second = await index.refresh(BUCKET_A);
+    assert.equal(second.indexed, 1);
+    assert.deepEqual(second.failed, []);
+  });
+
+  it('drops documents deleted from the bucket', async () => {
+    const objects: Record<string, string> = { 'keep.txt': 'alpha', 'gone.txt': 'alpha' };
+    const index = await searchIndex({ [BUCKET_A]: objects });
+    await index.refresh(BUCKET_A);
+
+    delete objects['gone.txt'];
+    assert.deepEqual(await index.refresh(BUCKET_A), { indexed: 0, removed: 1, failed: [] });
+    assert.deepEqual((await index.search('alpha', [BUCKET_A])).map((hit) => hit.key), ['keep.txt']);
+  });
+});
@@ -0,0 +1,51 @@
+import assert from 'node:assert/strict';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { Hex } from 'viem';
+import { privateKeyToAddress } from 'viem/accounts';
+
+const KEY_A: Hex = `0x${'11'.repeat(32)}`;
+const KEY_B: Hex = `0x${'22'.repeat(32)}`;
+
+// RECALL_PRIVATE_KEY is read when env.ts loads, so the modules are imported after it is set
+process.env.RECALL_PRIVATE_KEY = KEY_A;
+const { createSignerAccount, sealVault } = await import('../src/signers.js');
+
+let dir: string;
+before(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'recall-signers-'));
+});
+after(async () => rm(dir, { recursive: true, force: true }));
+
+describe('createSignerAccount', () => {
+  it('lets several profiles use RECALL_PRIVATE_KEY', () => {
+    const first = createSignerAccount({ type: 'default' }, 'first');
+    const second = createSignerAccount({ type: 'default' }, 'second');
+    assert.equal(first.address, privateKeyToAddress(KEY_A));
+    assert.equal(second.address, first.address);
+    // Each profile sets its own nonce manager on its account
+    assert.notEqual(first, second);
+  });
+
+  it('lets several profiles share a private key variable', () => {
+    process.env.TEST_SIGNER_KEY = KEY_B;
+    const first = createSignerAccount({ type: 'env', variable: 'TEST_SIGNER_KEY' }, 'first');
+    const second = createSignerAccount({ type: 'env', variable: 'TEST_SIGNER_KEY' }, 'second');
+    assert.equal(process.env.TEST_SIGNER_KEY, '[REDACTED]');
+    assert.equal(second.address, first.address);
+    assert.equal(first.address, privateKeyToAddress(KEY_B));
+  });
+
+  it('lets vault keys share a passphrase variable', async () => {
+    const path = join(dir, 'vault.json');
+    await writeFile(path, JSON.stringify(sealVault({ a: KEY_A, b: KEY_B }, 'correct horse')));
+    process.env.TEST_VAULT_PASSPHRASE = 'correct horse';
+
+    const a = createSignerAccount({ type: 'vault', path, name: 'a', passphraseEnv: 'TEST_VAULT_PASSPHRASE' }, 'a');
+    const b = createSignerAccount({ type: 'vault', path, name: 'b', passphraseEnv: 'TEST_VAULT_PASSPHRASE' }, 'b');
+    assert.equal(a.address, privateKeyToAddress(KEY_A));
+    assert.equal(b.address, privateKeyToAddress(KEY_B));
+  });
+});
@@ -0,0 +1,129 @@
+import assert from 'node:assert/strict';
+import { appendFile, mkdir, mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { parseEther } from 'viem';
+import { config } from '../src/env.js';
+import { NetworkError, RecallClientManager, TransactionError } from '../src/recall-client.js';
+import { SpendingPolicy } from '../src/spending-policy.js';
+
+const dataDirs: string[] = [];
+
+before(() => {
+  config.RECALL_MAX_CREDIT_PER_CALL = '0.1';
+  config.RECALL_MAX_CREDIT_PER_DAY = '0.25';
+  config.RECALL_MIN_WALLET_BALANCE = '1';
+});
+after(async () => Promise.all(dataDirs.map((dir) => rm(dir, { recursive: true, force: true }))));
+
+// A client whose purchases are paid from its wallet balance, or fail with the given error or receipt status
+const fakeClient = async (options: { balance?: string; failWith?: Error; receiptStatus?: 'success' | 'reverted' } = {}) => {
+  const dataDir = await mkdtemp(join(tmpdir(), 'recall-spending-'));
+  dataDirs.push(dataDir);
+  const purchases: bigint[] = [];
+  let balance = parseEther(options.balance ?? '10');
+  const client = {
+    profile: { dataDir },
+    getAccountInfo: async () => ({ balance }),
+    buyCredit: async (amount: bigint) => {
+      if (options.failWith) throw options.failWith;
+      purchases.push(amount);
+      balance -= amount;
+      return { meta: { tx: { transactionHash: '0xabc', status: options.receiptStatus ?? 'success' } } };
+    },
+  } as unknown as RecallClientManager;
+  return { client, dataDir, purchases };
+};
+
+describe('SpendingPolicy', () => {
+  it('collapses each ledger entry to its latest state, keeping the first timestamp', async () => {
+    const { client, dataDir } = await fakeClient();
+    await mkdir(dataDir, { recursive: true });
+    const lines = [
+      { id: 'a', timestamp: '2025-01-01T00:00:00.000Z', amount: '100', status: 'pending' },
+      { id: 'b', timestamp: '2025-01-01T00:00:01.000Z', amount: '200', status: 'pending' },
+      { id: 'a', timestamp: '2025-01-01T00:00:05.000Z', amount: '100', status: 'confirmed', transactionHash: '0x1' },
+    ];
+    await appendFile(join(dataDir, 'credit-ledger.jsonl'), `${lines.map((line) => JSON.stringify(line)).join('\n')}\nnot json\n`);
+
+    assert.deepEqual(await new SpendingPolicy(client).getPurchases(), [
+      { id: 'a', timestamp: '2025-01-01T00:00:00.000Z', amount: '100', status: 'confirmed', transactionHash: '0x1' },
+      { id: 'b', timestamp: '2025-01-01T00:00:01.000Z', amount: '200', status: 'pending', transactionHash: null },
+    ]);
+  });
+
+  it('only counts purchases from the last 24 hours', async () => {
+    const { client, dataDir } = await fakeClient();
+    const old = new Date(Date.now() - 25 * 60 * 60 * 1000).toISOString();
+    const recent = new Date().toISOString();
+    await appendFile(join(dataDir, 'credit-ledger.jsonl'), [
+      { id: 'old', timestamp: old, amount: '5', status: 'confirmed' },
+      { id: 'new', timestamp: recent, amount: '7', status: 'confirmed' },
+      { id: 'failed', timestamp: recent, amount: '11', status: 'failed' },
+    ].map((line) => `${JSON.stringify(line)}\n`).join(''));
+
+    assert.equal(await new SpendingPolicy(client).spentLast24h(), 7n);
+  });
+
+  it('enforces the per-call, daily and minimum balance limits', async () => {
+    const { client, purchases } = await fakeClient({ balance: '1.15' });
+    const policy = new SpendingPolicy(client);
+
+    await assert.rejects(policy.buyCredit('0.2'), { code: 'PER_CALL_LIMIT' });
+    await assert.rejects(policy.buyCredit('0'), { code: 'INVALID_AMOUNT' });
+    await assert.rejects(policy.buyCredit('lots'), { code: 'INVALID_AMOUNT' });
+    await assert.rejects(policy.buyCredit('0.2 ether'), { code: 'PER_CALL_LIMIT' });
+
+    await policy.buyCredit('0.1');
+    // The wallet is down to 1.05, so another 0.1 would take it under the minimum balance of 1
+    await assert.rejects(policy.buyCredit('0.1'), { code: 'MIN_BALANCE' });
+    await policy.buyCredit('0.05');
+    assert.deepEqual(purchases, [parseEther('0.1'), parseEther('0.05')]);
+
+    const status = await policy.getStatus();
+    assert.equal(status.spentLast24h, '0.15');
+    assert.equal(status.remainingToday, '0.1');
+  });
+
+  it('stops at the daily limit', async () => {
+    const { client } = await fakeClient();
+    const policy = new SpendingPolicy(client);
+
+    await policy.buyCredit('0.1');
+    await policy.buyCredit('0.1');
+    await assert.rejects(policy.buyCredit('0.1'), { code: 'DAILY_LIMIT' });
+    await policy.buyCredit('0.05');
+  });
+
+  it('counts a purchase that may have gone through toward the daily limit', async () => {
+    const { client } = await fakeClient({ failWith: new NetworkError('TIMEOUT', 'timed out') });
+    const policy = new SpendingPolicy(client);
+
+    await assert.rejects(policy.buyCredit('0.1'), { code: 'TIMEOUT' });
+    const [purchase] = await policy.getPurchases();
+    assert.equal(purchase.status, 'unknown');
+    assert.equal(await policy.spentLast24h(), parseEther('0.1'));
+  });
+
+  it('does not count a purchase that certainly failed', async () => {
+    const { client } = await fakeClient({ failWith: new TransactionError('reverted') });
+    const policy = new SpendingPolicy(client);
+
+    await assert.rejects(policy.buyCredit('0.1'), { code: 'TRANSACTION_REVERTED' });
+    const [purchase] = await policy.getPurchases();
+    assert.equal(purchase.status, 'failed');
+    assert.equal(await policy.spentLast24h(), 0n);
+  });
+
+  it('records a mined purchase that reverted as failed', async () => {
+    const { client } = await fakeClient({ receiptStatus: 'reverted' });
+    const policy = new SpendingPolicy(client);
+
+    await assert.rejects(policy.buyCredit('0.1'), { code: 'TRANSACTION_REVERTED' });
+    const [purchase] = await policy.getPurchases();
+    assert.equal(purchase.status, 'failed');
+    assert.equal(purchase.transactionHash, '0xabc');
+    assert.equal(await policy.spentLast24h(), 0n);
+  });
+});
@@ -0,0 +1,134 @@
+import assert from 'node:assert/strict';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { z } from 'zod';
+import { config } from '../src/env.js';
+import { defineTool, toJsonSchema, ToolRegistry } from '../src/tool-registry.js';
+import { RECALL_TOOLS } from '../src/tools.js';
+import { AddObjectSchema, AddObjectsSchema, GetObjectSchema, ListBucketObjectsSchema } from '../src/types.js';
+
+let dir: string;
+
+before(async () => {
+  // Calls resolve a profile context; a remote signer needs no key material and is never contacted
+  dir = await mkdtemp(join(tmpdir(), 'tool-registry-'));
+  const profilesFile = join(dir, 'profiles.json');
+  await writeFile(profilesFile, JSON.stringify({
+    default: 'test',
+    profiles: {
+      test: { network: 'localnet', signer: { type: 'remote', url: 'http://127.0.0.1:9', address: `0x${'11'.repeat(20)}` } },
+    },
+  }));
+  config.RECALL_PROFILES_FILE = profilesFile;
+  config.RECALL_DATA_DIR = dir;
+});
+after(async () => rm(dir, { recursive: true, force: true }));
+
+describe('toJsonSchema', () => {
+  it('keeps the string constraints and description of a checked() argument', () => {
+    const { properties, required } = toJsonSchema(GetObjectSchema) as {
+      properties: Record<string, unknown>;
+      required: string[];
+    };
+    assert.deepEqual(properties.bucket, { type: 'string', minLength: 1, description: 'Bucket alias or 0x address' });
+    assert.ok(required.includes('bucket'));
+  });
+
+  it('converts defaults, optional arguments, records, unions and strict objects', () => {
+    const json = toJsonSchema(AddObjectSchema) as {
+      properties: Record<string, Record<string, unknown>>;
+      required: string[];
+      additionalProperties: boolean;
+    };
+    assert.equal(json.additionalProperties, false);
+    assert.deepEqual(json.required, ['bucket', 'key', 'data']);
+    assert.deepEqual(json.properties.dataEncoding.enum, ['utf8', 'base64', 'hex']);
+    assert.equal(json.properties.dataEncoding.default, 'utf8');
+    assert.deepEqual(json.properties.metadata.additionalProperties, { type: 'string' });
+    // The ttl string branch is refined and transformed; both are invisible in JSON Schema
+    assert.deepEqual(json.properties.ttl.anyOf, [{ type: 'integer', minimum: 3600 }, { type: 'string' }]);
+    assert.equal(json.properties.overwrite.type, 'boolean');
+  });
+
+  it('converts integer bounds next to a default', () => {
+    const { properties } = toJsonSchema(ListBucketObjectsSchema) as { properties: Record<string, unknown> };
+    assert.deepEqual(properties.limit, {
+      type: 'integer',
+      minimum: 1,
+      maximum: 1000,
+      default: 100,
+      description: 'Maximum number of objects to return',
+    });
+  });
+
+  it('converts array bounds and the element schema', () => {
+    const { properties } = toJsonSchema(AddObjectsSchema) as { properties: Record<string, Record<string, unknown>> };
+    assert.equal(properties.items.type, 'array');
+    assert.equal(properties.items.minItems, 1);
+    assert.equal(properties.items.maxItems, 100);
+    assert.equal((properties.items.items as { type: string }).type, 'object');
+  });
+
+  it('converts nullable values, exclusive bounds and unknown values', () => {
+    assert.deepEqual(toJsonSchema(z.string().nullable()), { type: ['string', 'null'] });
+    assert.deepEqual(toJsonSchema(z.union([z.string(), z.number()]).nullable()), {
+      anyOf: [{ anyOf: [{ type: 'string' }, { type: 'number' }] }, { type: 'null' }],
+    });
+    assert.deepEqual(toJsonSchema(z.number().positive().lt(10)), { type: 'number', exclusiveMinimum: 0, exclusiveMaximum: 10 });
+    assert.deepEqual(toJsonSchema(z.unknown()), {});
+  });
+
+  it('refuses schemas it cannot express', () => {
+    assert.throws(() => toJsonSchema(z.date()), /Cannot convert ZodDate/);
+  });
+});
+
+describe('ToolRegistry', () => {
+  const echo = defineTool({
+    name: 'echo',
+    description: 'Echoes its items',
+    global: true,
+    input: z.object({ items: z.array(z.object({ key: z.string().min(1) })).min(1) }).strict(),
+    output: z.object({ keys: z.array(z.string()) }),
+    handler: async ({ items }) => ({ structured: { keys: items.map((item) => item.key) } }),
+  });
+  const registry = new ToolRegistry([echo as never]);
+
+  it('lists every tool with an input schema and no output schema', () => {
+    const tools = new ToolRegistry(RECALL_TOOLS).list();
+    assert.equal(tools.length, RECALL_TOOLS.length);
+    for (const tool of tools) {
+      assert.equal(tool.inputSchema.type, 'object');
+      assert.equal('outputSchema' in tool, false);
+    }
+    // Recall tools take the profile argument; global tools do not
+    const getObject = tools.find((tool) => tool.name === 'get_object');
+    const guidance = tools.find((tool) => tool.name === 'security_guidance');
+    assert.ok(getObject?.inputSchema.properties && 'profile' in getObject.inputSchema.properties);
+    assert.ok(guidance?.inputSchema.properties && !('profile' in guidance.inputSchema.properties));
+  });
+
+  it('returns the output as JSON text only', async () => {
+    const result = await registry.call('echo', { items: [{ key: 'a' }, { key: 'b' }] });
+    assert.equal(result.isError, false);
+    assert.equal('structuredContent' in result, false);
+    assert.deepEqual(JSON.parse((result.content[0] as { text: string }).text), { keys: ['a', 'b'] });
+  });
+
+  it('names every invalid argument by its path', async () => {
+    const result = await registry.call('echo', { items: [{ key: 'a' }, { key: '' }], extra: true });
+    assert.equal(result.isError, true);
+    const { error } = JSON.parse((result.content[0] as { text: string }).text);
+    assert.equal(error.code, 'INVALID_ARGUMENT');
+    const paths = error.issues.map((issue: { path: string }) => issue.path);
+    assert.deepEqual(paths.sort(), ['(arguments)', 'items[1].key']);
+  });
+
+  it('reports unknown tools as invalid arguments', async () => {
+    const result = await registry.call('missing');
+    assert.equal(result.isError, true);
+    assert.equal(JSON.parse((result.content[0] as { text: string }).text).error.code, 'INVALID_ARGUMENT');
+  });
+});
@@ -0,0 +1,138 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { InvalidArgumentError } from '../src/recall-client.js';
+import {
+  parseAddress,
+  parseAmount,
+  parseDuration,
+  parseHash,
+  parseTtl,
+  validateAlias,
+  validateBucket,
+  validateKey,
+} from '../src/validation.js';
+
+const CHECKSUMMED = '0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed';
+
+// Asserts that a check rejects the value with the given code, and returns the error
+const rejects = (check: () => unknown, code = 'INVALID_ARGUMENT', message?: RegExp): InvalidArgumentError => {
+  let caught: unknown;
+  assert.throws(check, (error) => {
+    caught = error;
+    return error instanceof InvalidArgumentError && error.code === code && (!message || message.test(error.message));
+  });
+  return caught as InvalidArgumentError;
+};
+
+describe('parseAddress', () => {
+  it('checksums lowercase and uppercase addresses', () => {
+    assert.equal(parseAddress(CHECKSUMMED.toLowerCase()), CHECKSUMMED);
+    assert.equal(parseAddress(`0x${CHECKSUMMED.slice(2).toUpperCase()}`), CHECKSUMMED);
+    assert.equal(parseAddress(` ${CHECKSUMMED} `), CHECKSUMMED);
+  });
+
+  it('suggests the 0x prefix when only it is missing', () => {
+    const error = rejects(() => parseAddress(CHECKSUMMED.slice(2)), 'INVALID_ADDRESS', /must start with 0x/);
+    assert.equal(error.details?.suggestion, CHECKSUMMED);
+  });
+
+  it('names a non-hex character and a wrong length', () => {
+    rejects(() => parseAddress(`0x${'g'.repeat(40)}`), 'INVALID_ADDRESS', /contains "g" at position 3/);
+    rejects(() => parseAddress(`0x${'a'.repeat(39)}`), 'INVALID_ADDRESS', /has 39 hex digits/);
+  });
+
+  it('rejects a mixed-case address with a wrong checksum', () => {
+    const mistyped = `${CHECKSUMMED.slice(0, -1)}D`;
+    rejects(() => parseAddress(mistyped), 'INVALID_ADDRESS', /EIP-55 checksum/);
+  });
+});
+
+describe('parseHash', () => {
+  it('returns the hash in lowercase', () => {
+    assert.equal(parseHash(`0x${'AB'.repeat(32)}`), `0x${'ab'.repeat(32)}`);
+  });
+
+  it('rejects malformed hashes and says when an address was passed', () => {
+    rejects(() => parseHash('ab'.repeat(32)), 'INVALID_ARGUMENT', /must start with 0x/);
+    rejects(() => parseHash(`0x${'z'.repeat(64)}`), 'INVALID_ARGUMENT', /contains "z"/);
+    rejects(() => parseHash(CHECKSUMMED), 'INVALID_ARGUMENT', /length of an address/);
+  });
+});
+
+describe('validateAlias and validateBucket', () => {
+  it('accepts aliases and addresses', () => {
+    validateAlias('notes');
+    validateBucket('notes');
+    validateBucket(CHECKSUMMED);
+  });
+
+  it('rejects aliases that are unprintable, padded or read as addresses', () => {
+    rejects(() => validateAlias('a\u0007b'), 'INVALID_ARGUMENT', /U\+0007/);
+    rejects(() => validateAlias(' notes'), 'INVALID_ARGUMENT', /whitespace/);
+    rejects(() => validateAlias('0xnotes'), 'INVALID_ARGUMENT', /taken for an address/);
+    rejects(() => validateBucket('0x1234'), 'INVALID_ADDRESS');
+  });
+});
+
+describe('validateKey', () => {
+  it('rejects long keys and control characters for every use', () => {
+    rejects(() => validateKey('a'.repeat(1025)), 'INVALID_ARGUMENT', /1025 bytes/);
+    rejects(() => validateKey('a\nb'), 'INVALID_ARGUMENT', /U\+000A at position 1/);
+  });
+
+  it('lets existing keys with dot segments or the reserved prefix be read', () => {
+    validateKey('notes/../old');
+    validateKey('./notes');
+    validateKey('.recall/lifecycle.json');
+  });
+
+  it('rejects dot segments and the reserved prefix for writes', () => {
+    rejects(() => validateKey('notes/../old', { write: true }), 'INVALID_ARGUMENT', /path segment/);
+    rejects(() => validateKey('./notes', { write: true }), 'INVALID_ARGUMENT', /path segment/);
+    rejects(() => validateKey('.recall/lifecycle.json', { write: true }), 'INVALID_ARGUMENT', /reserved/);
+    validateKey('notes/..hidden/.x', { write: true });
+  });
+});
+
+describe('parseAmount', () => {
+  it('reads whole tokens, decimals, exponents and units', () => {
+    assert.equal(parseAmount('1'), 10n ** 18n);
+    assert.equal(parseAmount('0.1'), 10n ** 17n);
+    assert.equal(parseAmount('.5'), 5n * 10n ** 17n);
+    assert.equal(parseAmount('1e-3'), 10n ** 15n);
+    assert.equal(parseAmount('100000000 gwei'), 10n ** 17n);
+    assert.equal(parseAmount('7 WEI'), 7n);
+    assert.equal(parseAmount('2 recall'), 2n * 10n ** 18n);
+  });
+
+  it('rejects negative, malformed, unknown-unit and sub-wei amounts', () => {
+    rejects(() => parseAmount('-1'), 'INVALID_ARGUMENT', /negative/);
+    rejects(() => parseAmount('one'), 'INVALID_ARGUMENT', /Invalid amount/);
+    rejects(() => parseAmount('1 eth'), 'INVALID_ARGUMENT', /Unknown unit "eth"/);
+    rejects(() => parseAmount('1e99'), 'INVALID_ARGUMENT', /exponent/);
+    rejects(() => parseAmount('0.5 wei'), 'INVALID_ARGUMENT', /more precise than 1 wei/);
+  });
+});
+
+describe('parseDuration and parseTtl', () => {
+  it('reads seconds, short units and spelled-out units', () => {
+    assert.equal(parseDuration('3600'), 3600);
+    assert.equal(parseDuration('90s'), 90);
+    assert.equal(parseDuration('15m'), 900);
+    assert.equal(parseDuration('1.5h'), 5400);
+    assert.equal(parseDuration('1 day'), 86400);
+    assert.equal(parseDuration('3 hours'), 10800);
+    assert.equal(parseDuration('2w'), 1209600);
+  });
+
+  it('rejects malformed, unknown-unit and zero durations', () => {
+    rejects(() => parseDuration('soon'), 'INVALID_ARGUMENT', /Invalid duration/);
+    rejects(() => parseDuration('1y'), 'INVALID_ARGUMENT', /Unknown unit "y"/);
+    rejects(() => parseDuration('0h'), 'INVALID_ARGUMENT', /not positive/);
+  });
+
+  it('requires a TTL of at least an hour', () => {
+    assert.equal(parseTtl('1h'), 3600);
+    rejects(() => parseTtl('59m'), 'INVALID_ARGUMENT', /at least 3600/);
+  });
+});
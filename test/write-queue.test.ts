@@ -0,0 +1,95 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { Client, Hash } from 'viem';
+import { WriteQueue } from '../src/write-queue.js';
+
+const ADDRESS = '0x00000000000000000000000000000000000000aa';
+const HASH: Hash = `0x${'ab'.repeat(32)}`;
+
+// A client whose pending transaction count is `count`, recording how often it was asked
+const countingClient = (count: number) => {
+  const calls = { count: 0 };
+  const client = {
+    request: async () => {
+      calls.count++;
+      return `0x${count.toString(16)}`;
+    },
+  } as unknown as Client;
+  return { client, calls };
+};
+
+describe('WriteQueue', () => {
+  it('reads the nonce from the chain once, then hands out the following ones locally', async () => {
+    const queue = new WriteQueue();
+    const { client, calls } = countingClient(7);
+    const consume = () => queue.nonceManager.consume({ address: ADDRESS, chainId: 1, client });
+
+    assert.deepEqual([await consume(), await consume(), await consume()], [7, 8, 9]);
+    assert.equal(calls.count, 1);
+    assert.equal(queue.list().nextNonce, 10);
+  });
+
+  it('reads the nonce from the chain again after a reset', async () => {
+    const queue = new WriteQueue();
+    const { client, calls } = countingClient(3);
+    const consume = () => queue.nonceManager.consume({ address: ADDRESS, chainId: 1, client });
+
+    await consume();
+    await consume();
+    queue.resetNonce();
+    assert.equal(queue.list().nextNonce, null);
+    assert.equal(await consume(), 3);
+    assert.equal(calls.count, 2);
+  });
+
+  it('runs writes one at a time, in order', async () => {
+    const queue = new WriteQueue();
+    const events: string[] = [];
+    const write = (name: string, ms: number) => queue.enqueue('test', name, async () => {
+      events.push(`start ${name}`);
+      await new Promise((resolve) => setTimeout(resolve, ms));
+      events.push(`end ${name}`);
+      return name;
+    });
+
+    assert.deepEqual(await Promise.all([write('a', 20), write('b', 0), write('c', 5)]), ['a', 'b', 'c']);
+    assert.deepEqual(events, ['start a', 'end a', 'start b', 'end b', 'start c', 'end c']);
+  });
+
+  it('resets the nonce and records the error when a write fails, then runs the next one', async () => {
+    const queue = new WriteQueue();
+    const { client } = countingClient(1);
+    await queue.nonceManager.consume({ address: ADDRESS, chainId: 1, client });
+
+    await assert.rejects(queue.enqueue('addObject', 'add a', async () => {
+      throw new Error('nonce too low');
+    }), /nonce too low/);
+    assert.equal(queue.list().nextNonce, null);
+    assert.equal(await queue.enqueue('addObject', 'add b', async () => 'ok'), 'ok');
+
+    const [latest, failed] = queue.list().recent;
+    assert.equal(latest.status, 'confirmed');
+    assert.equal(failed.status, 'failed');
+    assert.equal(failed.error, 'nonce too low');
+  });
+
+  it('resolves with onSubmitted as soon as the transaction is sent', async () => {
+    const queue = new WriteQueue();
+    let confirm = () => {};
+    const confirmed = new Promise<void>((resolve) => {
+      confirm = resolve;
+    });
+
+    const result = await queue.enqueue('addObject', 'add a', async () => {
+      queue.markSubmitted(HASH);
+      await confirmed;
+      return 'confirmed';
+    }, { onSubmitted: (hash) => `submitted ${hash}` });
+    assert.equal(result, `submitted ${HASH}`);
+
+    const [pending] = queue.list().pending;
+    assert.equal(pending.status, 'submitted');
+    assert.equal(pending.transactionHash, HASH);
+    confirm();
+  });
+});